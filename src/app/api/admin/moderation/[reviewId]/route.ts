@@ -0,0 +1,47 @@
+/**
+ * API Route: Resolve Moderation Review
+ * Approves a held image, letting its next upload pin it, or rejects it and
+ * clears its cached generation so the FID paints a new image (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { resolveModerationReview } from '@/lib/db-operations';
+import { evictRejectedImage } from '@/lib/moderation/review';
+
+const DECISIONS = { approve: 'approved', reject: 'rejected' } as const;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ reviewId: string }> }
+): Promise<NextResponse> {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { reviewId } = await params;
+    const { decision } = await request.json();
+
+    if (typeof decision !== 'string' || !Object.hasOwn(DECISIONS, decision)) {
+      return NextResponse.json(
+        { error: `Invalid decision. Must be one of: ${Object.keys(DECISIONS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const review = await resolveModerationReview(reviewId, DECISIONS[decision as keyof typeof DECISIONS]);
+    if (!review) {
+      return NextResponse.json({ error: 'No pending review with this id' }, { status: 404 });
+    }
+
+    if (review.status === 'rejected') {
+      await evictRejectedImage(review);
+    }
+
+    return NextResponse.json({ success: true, review });
+  } catch (error) {
+    console.error('Error resolving moderation review:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to resolve moderation review: ${message}` }, { status: 500 });
+  }
+}
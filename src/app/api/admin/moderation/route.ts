@@ -0,0 +1,36 @@
+/**
+ * API Route: Moderation Review Queue
+ * Lists generated images held by moderation (admin only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getModerationReviews } from '@/lib/db-operations';
+import type { ModerationReviewStatus } from '@/lib/supabase';
+
+const REVIEW_STATUSES: ModerationReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = (searchParams.get('status') || 'pending') as ModerationReviewStatus;
+
+    if (!REVIEW_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status. Must be one of: ${REVIEW_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const reviews = await getModerationReviews(status);
+
+    return NextResponse.json({ success: true, status, reviews });
+  } catch (error) {
+    console.error('Error fetching moderation reviews:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to fetch moderation reviews: ${message}` }, { status: 500 });
+  }
+}
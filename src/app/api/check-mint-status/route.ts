@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { checkFIDMinted, getMintStats, getNFTByFID } from '@/lib/db-operations';
+import { getGenerationPreview, type GenerationPreview } from '@/lib/generation-jobs';
 
 export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
@@ -32,11 +33,22 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
       nft = await getNFTByFID(fid);
     }
 
+    // Otherwise restore the last generated preview; losing it only means generating again
+    let preview: GenerationPreview | null = null;
+    if (!hasMinted) {
+      try {
+        preview = await getGenerationPreview(fid);
+      } catch (previewError) {
+        console.error('Error loading generation preview:', previewError);
+      }
+    }
+
     return NextResponse.json({
       success: true,
       fid,
       hasMinted,
       nft,
+      preview,
       stats: {
         totalMinted: stats?.total_minted || 0,
         maxSupply: stats?.max_supply || 10000,
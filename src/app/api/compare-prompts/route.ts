@@ -0,0 +1,89 @@
+/**
+ * API Route: Compare Prompts
+ * Generates one image per prompt version from the same trait set, so prompt
+ * versions can be compared side by side. Disabled unless ENABLE_PROMPT_COMPARE=true.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { CHARACTER_GENDERS, generateTraits } from '@/lib/trait-generator';
+import { getActiveTheme } from '@/lib/themes';
+import { buildPromptFromTraits } from '@/lib/prompt-templates';
+import { generateImageUrl } from '@/lib/image-generator';
+import { analyzeFidPFP } from '@/lib/pfp-analyzer-server';
+
+const MAX_VERSIONS = 4;
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  if (process.env.ENABLE_PROMPT_COMPARE !== 'true') {
+    return NextResponse.json({ error: 'Prompt comparison is disabled' }, { status: 404 });
+  }
+
+  try {
+    const body = await request.json();
+    const { fid, gender, artStyle, versions } = body;
+
+    if (!fid || !gender || !Array.isArray(versions) || versions.length < 2) {
+      return NextResponse.json(
+        { error: 'Missing required fields: fid, gender, versions (at least 2)' },
+        { status: 400 }
+      );
+    }
+
+    if (versions.length > MAX_VERSIONS) {
+      return NextResponse.json({ error: `At most ${MAX_VERSIONS} versions per comparison` }, { status: 400 });
+    }
+
+    if (!Number.isInteger(fid) || fid <= 0) {
+      return NextResponse.json({ error: 'Invalid FID' }, { status: 400 });
+    }
+
+    if (!CHARACTER_GENDERS.includes(gender)) {
+      return NextResponse.json(
+        { error: `Invalid gender. Must be one of: ${CHARACTER_GENDERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const theme = getActiveTheme();
+    const stylePresetIds = theme.stylePresets.map((preset) => preset.id);
+    if (artStyle && !stylePresetIds.includes(artStyle)) {
+      return NextResponse.json(
+        { error: `Invalid artStyle. Must be one of: ${stylePresetIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const promptVersions = theme.prompts.map((template) => template.version);
+    const unknownVersions = versions.filter((version: unknown) => !promptVersions.includes(version as string));
+    if (unknownVersions.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown prompt versions: ${unknownVersions.join(', ')}. Must be one of: ${promptVersions.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Same traits for every version so only the prompt differs
+    const { palette } = await analyzeFidPFP(fid);
+    const traits = generateTraits(fid, gender, palette, { artStyle });
+    const prompts = versions.map((version: string) => buildPromptFromTraits(traits, version));
+
+    const results = await Promise.all(
+      prompts.map(async (prompt) => ({
+        promptVersion: prompt.version,
+        prompt: prompt.prompt,
+        negativePrompt: prompt.negativePrompt ?? null,
+        imageUrl: await generateImageUrl(prompt, traits),
+      }))
+    );
+
+    return NextResponse.json({
+      success: true,
+      traits,
+      results,
+    });
+  } catch (error) {
+    console.error('Error comparing prompts:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to compare prompts: ${message}` }, { status: 500 });
+  }
+}
@@ -1,97 +1,129 @@
 /**
  * API Route: Compress Image and Upload to IPFS
- * Compresses to 1200px max and uploads to Pinata
+ * Pins the watermarked preview of the chosen candidate with the pre-reveal
+ * metadata the token is minted against. The clean image is resolved from
+ * nft_metadata_cache, never taken from the client, and screened with the
+ * moderation classifier first; flagged images are held for admin review. The
+ * clean image itself is only pinned after the mint (see mint-reveal.ts), as
+ * the candidate recorded in mint_previews for the preview's metadata URI.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import sharp from 'sharp';
-import { pinataUploadImageWithMetadata } from '@/pinata-media-api';
-
-const MAX_SIZE = 1200;
+import { computeTraitDNA, hasKnownTheme, verifyTraits, type CharacterTraits } from '@/lib/trait-generator';
+import { screenImageForPinning } from '@/lib/moderation/review';
+import { findCandidate } from '@/lib/generation-jobs';
+import { fetchGeneratedImage } from '@/lib/fetch-image';
+import { pinMintPreview } from '@/lib/mint-reveal';
+import { renderWatermarkedPreview } from '@/lib/watermark';
+import { getTraitReroll, isTraitDNATaken, reserveTraitDNA, saveMintPreview } from '@/lib/db-operations';
+import { validateTraits } from '@/lib/trait-rules';
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     const body = await request.json();
-    const { imageUrl, fid, traits, attributes } = body;
+    const { fid, promptVersion, seed, animationUrl } = body;
+    const traits: CharacterTraits | undefined = body.traits;
 
-    if (!imageUrl || !fid || !traits) {
+    if (!fid || !traits || !promptVersion || !Number.isInteger(seed)) {
       return NextResponse.json(
-        { error: 'Missing required fields: imageUrl, fid, traits' },
+        { error: 'Missing required fields: fid, traits, promptVersion, seed' },
         { status: 400 }
       );
     }
 
-    // Fetch image
-    console.log(`Fetching image from: ${imageUrl}`);
-    const response = await fetch(imageUrl);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch image: ${response.statusText}`);
+    if (!Number.isInteger(fid) || fid <= 0) {
+      return NextResponse.json({ error: 'Invalid FID' }, { status: 400 });
     }
 
-    const arrayBuffer = await response.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    if (!hasKnownTheme(traits)) {
+      return NextResponse.json({ error: 'Unknown theme or art style' }, { status: 400 });
+    }
 
-    // Get original dimensions
-    const metadata = await sharp(buffer).metadata();
-    const originalWidth = metadata.width || 0;
-    const originalHeight = metadata.height || 0;
+    if (animationUrl !== undefined && typeof animationUrl !== 'string') {
+      return NextResponse.json({ error: 'animationUrl must be a string' }, { status: 400 });
+    }
 
-    console.log(`Original size: ${originalWidth}x${originalHeight}`);
+    // Validate the final trait set before the user pays for it: derived from
+    // this FID, rule-compatible and carrying exactly the rerolls recorded for it
+    if (!verifyTraits(fid, traits)) {
+      return NextResponse.json({ error: 'Traits do not match this FID' }, { status: 400 });
+    }
 
-    // Calculate new dimensions (max 1200px on longest side)
-    let width = originalWidth;
-    let height = originalHeight;
+    const { valid, violations } = validateTraits(traits);
+    if (!valid) {
+      return NextResponse.json(
+        { error: `Incompatible traits: ${violations.map((violation) => violation.message).join('; ')}` },
+        { status: 400 }
+      );
+    }
+
+    const reroll = await getTraitReroll(fid);
+    if (traits.rerollSlot !== reroll?.slot || traits.rerollSeed !== reroll?.seed) {
+      return NextResponse.json({ error: 'Traits do not match the recorded rerolls' }, { status: 400 });
+    }
 
-    if (width > MAX_SIZE || height > MAX_SIZE) {
-      if (width > height) {
-        height = Math.round((height * MAX_SIZE) / width);
-        width = MAX_SIZE;
-      } else {
-        width = Math.round((width * MAX_SIZE) / height);
-        height = MAX_SIZE;
-      }
+    const traitDna = computeTraitDNA(traits);
+    const candidate = await findCandidate(fid, traitDna, promptVersion, seed, traits);
+    if (!candidate) {
+      return NextResponse.json(
+        { error: 'This image is no longer available. Please generate again.' },
+        { status: 404 }
+      );
     }
 
-    console.log(`Compressed size: ${width}x${height}`);
-
-    // Compress image
-    const compressedBuffer = await sharp(buffer)
-      .resize(width, height, {
-        fit: 'inside',
-        withoutEnlargement: true,
-      })
-      .png({ quality: 90, compressionLevel: 9 })
-      .toBuffer();
-
-    console.log(`Compressed from ${buffer.length} to ${compressedBuffer.length} bytes`);
-
-    // Upload to Pinata with metadata
-    console.log(`Uploading to IPFS via Pinata...`);
-    const result = await pinataUploadImageWithMetadata({
-      image: compressedBuffer,
-      filename: `winter-cheer-${fid}.png`,
-      metadata: {
-        name: `Winter Cheer #${fid}`,
-        description: 'A unique festive character celebrating the holiday season! Each Winter Cheer NFT is a one-of-a-kind anime-style character with personalized traits derived from your Farcaster profile.',
-        attributes: attributes || [],
-        external_url: 'https://winter-cheer.ohara.ai',
-      },
-      network: 'public',
-      mimeType: 'image/png',
+    // Claim the DNA before the user pays, so no other FID can mint the same
+    // character (minted_nfts.trait_dna is unique)
+    if ((await isTraitDNATaken(traitDna, fid)) || !(await reserveTraitDNA(traitDna, fid))) {
+      return NextResponse.json(
+        { error: 'Someone else is minting a character with these exact traits. Please reroll a trait.' },
+        { status: 409 }
+      );
+    }
+
+    console.log(`Fetching image of FID ${fid}, seed ${seed}`);
+    const buffer = await fetchGeneratedImage(candidate.imageUrl);
+
+    // Pinning is permanent, so nothing is pinned before moderation allows it
+    const decision = await screenImageForPinning(buffer, candidate.imageUrl, fid, traits);
+    if (decision.status === 'held') {
+      return NextResponse.json(
+        {
+          success: false,
+          held: true,
+          reviewId: decision.review.id,
+          error: 'Your character is waiting for a quick review before it can be minted. Please check back soon!',
+        },
+        { status: 202 }
+      );
+    }
+    if (decision.status === 'rejected') {
+      return NextResponse.json(
+        { error: 'This image did not pass moderation. Please generate a new one.' },
+        { status: 422 }
+      );
+    }
+
+    const preview = await renderWatermarkedPreview(buffer);
+    console.log(`Uploading ${preview.length} byte preview of FID ${fid} to IPFS via Pinata...`);
+    const pinned = await pinMintPreview(preview, fid, traits, animationUrl);
+
+    // record-mint reveals whatever this preview shows, whatever the client claims
+    await saveMintPreview({
+      fid,
+      preview_metadata_uri: pinned.metadataIpfsUri,
+      traits: traits as Record<string, string | number>,
+      trait_dna: traitDna,
+      prompt_version: promptVersion,
+      image_seed: seed,
+      animation_url: animationUrl ?? null,
     });
 
     return NextResponse.json({
       success: true,
-      imageIpfsUri: result.image.pin.ipfsUri,
-      imageGatewayUrl: result.image.pin.gatewayUrl,
-      metadataIpfsUri: result.metadata.pin.ipfsUri,
-      metadataGatewayUrl: result.metadata.pin.gatewayUrl,
-      metadata: result.metadata.document,
-      compressedSize: {
-        width,
-        height,
-        bytes: compressedBuffer.length,
-      },
+      previewImageIpfsUri: pinned.imageIpfsUri,
+      previewImageGatewayUrl: pinned.imageGatewayUrl,
+      previewMetadataIpfsUri: pinned.metadataIpfsUri,
+      previewMetadataGatewayUrl: pinned.metadataGatewayUrl,
     });
   } catch (error) {
     console.error('Error compressing and uploading:', error);
@@ -1,64 +1,92 @@
 /**
  * API Route: Generate NFT
- * Creates unique Winter Cheer NFT based on FID, gender, and PFP color
+ * Starts a generation job for a unique Winter Cheer NFT based on FID, gender,
+ * art style, and PFP palette. The job paints several candidate images from the
+ * same traits for the user to pick from. It runs after the response is sent;
+ * follow it through /api/generation-jobs/[jobId] (or its /events stream).
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-import { generateTraits, buildPromptFromTraits, traitsToAttributes } from '@/lib/trait-generator';
-import { fluxproSubmit, fluxproPollStatus, fluxproFetchImages } from '@/fluxpro-api';
+import { after, NextRequest, NextResponse } from 'next/server';
+import { CHARACTER_GENDERS } from '@/lib/trait-generator';
+import { getActiveTheme } from '@/lib/themes';
+import { createGenerationJob, getActiveGenerationJob } from '@/lib/db-operations';
+import {
+  DEFAULT_CANDIDATES,
+  isJobStale,
+  MAX_CANDIDATES,
+  runGenerationJob,
+  toJobStatus,
+} from '@/lib/generation-jobs';
+
+// Lets the job keep running after the response, while the image is generated
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     const body = await request.json();
-    const { fid, gender, dominantColor } = body;
+    const { fid, gender, artStyle, candidates = DEFAULT_CANDIDATES } = body;
 
-    if (!fid || !gender || !dominantColor) {
+    if (!fid || !gender) {
       return NextResponse.json(
-        { error: 'Missing required fields: fid, gender, dominantColor' },
+        { error: 'Missing required fields: fid, gender' },
         { status: 400 }
       );
     }
 
-    // Generate traits
-    const traits = generateTraits(fid, gender, dominantColor);
-
-    // Build AI prompt
-    const prompt = buildPromptFromTraits(traits);
+    if (!Number.isInteger(fid) || fid <= 0) {
+      return NextResponse.json({ error: 'Invalid FID' }, { status: 400 });
+    }
 
-    // Generate image with Flux Pro
-    console.log(`Generating NFT for FID ${fid} with Flux Pro...`);
-    const requestId = await fluxproSubmit({
-      prompt,
-      aspect_ratio: '1:1',
-      num_images: 1,
-      output_format: 'png',
-      safety_tolerance: '3',
-    });
+    if (!CHARACTER_GENDERS.includes(gender)) {
+      return NextResponse.json(
+        { error: `Invalid gender. Must be one of: ${CHARACTER_GENDERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    // Poll for completion
-    console.log(`Polling for Flux Pro completion (request ${requestId})...`);
-    await fluxproPollStatus(requestId);
+    const stylePresetIds = getActiveTheme().stylePresets.map((preset) => preset.id);
+    if (artStyle && !stylePresetIds.includes(artStyle)) {
+      return NextResponse.json(
+        { error: `Invalid artStyle. Must be one of: ${stylePresetIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
-    // Fetch generated images
-    const images = await fluxproFetchImages(requestId);
-    if (!images || images.length === 0) {
-      throw new Error('No images generated');
+    if (!Number.isInteger(candidates) || candidates < 1 || candidates > MAX_CANDIDATES) {
+      return NextResponse.json(
+        { error: `Invalid candidates. Must be between 1 and ${MAX_CANDIDATES}` },
+        { status: 400 }
+      );
     }
 
-    const imageUrl = images[0].url;
+    const input = { fid, gender, artStyle, candidates };
+
+    // One job per FID at a time; a second click follows the running job, but
+    // never in place of a request with other options
+    const active = await getActiveGenerationJob(fid);
+    if (active && !isJobStale(active)) {
+      const sameInput = (['gender', 'artStyle', 'candidates'] as const).every(
+        (key) => active.input[key] === input[key]
+      );
+      if (!sameInput) {
+        return NextResponse.json(
+          {
+            error: 'A generation with different options is still running. Please wait for it to finish.',
+            jobId: active.id,
+          },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json({ success: true, ...toJobStatus(active) }, { status: 202 });
+    }
 
-    // Prepare metadata
-    const attributes = traitsToAttributes(traits);
+    const job = await createGenerationJob(fid, input);
+    after(() => runGenerationJob(job.id, input));
 
-    return NextResponse.json({
-      success: true,
-      imageUrl,
-      traits,
-      attributes,
-    });
+    return NextResponse.json({ success: true, ...toJobStatus(job) }, { status: 202 });
   } catch (error) {
-    console.error('Error generating NFT:', error);
+    console.error('Error starting NFT generation:', error);
     const message = error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json({ error: `Failed to generate NFT: ${message}` }, { status: 500 });
+    return NextResponse.json({ error: `Failed to start NFT generation: ${message}` }, { status: 500 });
   }
 }
@@ -0,0 +1,77 @@
+/**
+ * API Route: Generation Job Events
+ * Server-sent events stream of a generation job: a `status` event whenever
+ * the job changes, ending once it is done or failed
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getGenerationJob } from '@/lib/db-operations';
+import { toJobStatus } from '@/lib/generation-jobs';
+
+const POLL_INTERVAL_MS = 1500;
+
+// Clients reconnect (EventSource does so automatically) after this long
+const MAX_STREAM_MS = 4 * 60 * 1000;
+
+export const maxDuration = 300;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<Response> {
+  const { jobId } = await params;
+
+  try {
+    if (!(await getGenerationJob(jobId))) {
+      return NextResponse.json({ error: 'Generation job not found' }, { status: 404 });
+    }
+  } catch (error) {
+    console.error('Error fetching generation job:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to fetch generation job: ${message}` }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const deadline = Date.now() + MAX_STREAM_MS;
+      let lastSent = '';
+
+      try {
+        while (!request.signal.aborted && Date.now() < deadline) {
+          const job = await getGenerationJob(jobId);
+          if (!job) break;
+
+          const status = toJobStatus(job);
+          const payload = JSON.stringify(status);
+          if (payload !== lastSent) {
+            controller.enqueue(encoder.encode(`event: status\ndata: ${payload}\n\n`));
+            lastSent = payload;
+          } else {
+            // Comment line keeps proxies from closing an idle stream
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+          }
+
+          if (status.status === 'done' || status.status === 'failed') break;
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        console.error('Error streaming generation job:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        controller.enqueue(encoder.encode(`event: error\ndata: ${JSON.stringify({ error: message })}\n\n`));
+      }
+
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,28 @@
+/**
+ * API Route: Generation Job Status
+ * Reports status, progress and, once done, the result of a generation job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getGenerationJob } from '@/lib/db-operations';
+import { toJobStatus } from '@/lib/generation-jobs';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { jobId } = await params;
+
+    const job = await getGenerationJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Generation job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, ...toJobStatus(job) });
+  } catch (error) {
+    console.error('Error fetching generation job:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to fetch generation job: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * API Route: Minted Preview Image
+ * Serves the watermarked preview an unrevealed token was minted with as PNG,
+ * which OG images can render (the pinned preview is WebP)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { pinataGatewayUrl } from '@/pinata-media-api';
+import { getNFTByTokenId } from '@/lib/db-operations';
+import { fetchGeneratedImage } from '@/lib/fetch-image';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+): Promise<NextResponse> {
+  try {
+    const tokenId = parseInt((await params).tokenId, 10);
+    if (isNaN(tokenId)) {
+      return NextResponse.json({ error: 'Invalid token ID' }, { status: 400 });
+    }
+
+    const nft = await getNFTByTokenId(tokenId);
+    if (!nft?.preview_metadata_uri) {
+      return NextResponse.json({ error: 'Preview not found' }, { status: 404 });
+    }
+
+    // The preview metadata is what the token was minted with
+    const metadataRes = await fetch(pinataGatewayUrl(nft.preview_metadata_uri.replace(/^ipfs:\/\//, '')));
+    if (!metadataRes.ok) {
+      return NextResponse.json({ error: `Failed to fetch preview metadata: ${metadataRes.status}` }, { status: 502 });
+    }
+    const { image_gateway: imageGatewayUrl } = await metadataRes.json();
+    if (!imageGatewayUrl) {
+      return NextResponse.json({ error: 'Preview metadata has no image' }, { status: 502 });
+    }
+
+    const png = await sharp(await fetchGeneratedImage(imageGatewayUrl)).png().toBuffer();
+
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        // A token's preview never changes
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving minted preview:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to serve preview: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * API Route: Palette Fixtures
+ * Runs the golden palette fixtures through the server analyzer and reports
+ * any drift from the recorded palettes. Each fixture is returned as a PNG data
+ * URL so the browser analyzer can be checked against the same goldens.
+ * Disabled unless ENABLE_PALETTE_FIXTURES=true.
+ */
+
+import { NextResponse } from 'next/server';
+import sharp from 'sharp';
+import { extractPaletteFromImage } from '@/lib/pfp-analyzer-server';
+import { drawFixture, PALETTE_FIXTURES } from '@/lib/palette-fixtures';
+
+export async function GET(): Promise<NextResponse> {
+  if (process.env.ENABLE_PALETTE_FIXTURES !== 'true') {
+    return NextResponse.json({ error: 'Palette fixtures are disabled' }, { status: 404 });
+  }
+
+  try {
+    const results = await Promise.all(
+      PALETTE_FIXTURES.map(async (fixture) => {
+        const { width, height, data } = drawFixture(fixture);
+        const png = await sharp(Buffer.from(data), { raw: { width, height, channels: 4 } }).png().toBuffer();
+        const palette = await extractPaletteFromImage(png, fixture.mode);
+
+        return {
+          name: fixture.name,
+          mode: fixture.mode,
+          image: `data:image/png;base64,${png.toString('base64')}`,
+          expected: fixture.expected,
+          palette,
+          match: JSON.stringify(palette) === JSON.stringify(fixture.expected),
+        };
+      })
+    );
+
+    return NextResponse.json({
+      success: results.every(({ match }) => match),
+      results,
+    });
+  } catch (error) {
+    console.error('Error running palette fixtures:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to run palette fixtures: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * API Route: PFP Proxy
+ * Serves a FID's PFP from our own origin so the browser analyzer can read its
+ * pixels when the PFP host blocks cross-origin canvas access. Only the FID's
+ * current PFP is served, so this cannot be used as an open proxy.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getFarcasterPfpUrl } from '@/lib/farcaster-profile';
+import { fetchPfp } from '@/lib/pfp-cache';
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fidParam = searchParams.get('fid');
+
+    if (!fidParam) {
+      return NextResponse.json({ error: 'Missing FID parameter' }, { status: 400 });
+    }
+
+    const fid = parseInt(fidParam, 10);
+    if (isNaN(fid)) {
+      return NextResponse.json({ error: 'Invalid FID' }, { status: 400 });
+    }
+
+    const pfpUrl = await getFarcasterPfpUrl(fid);
+    if (!pfpUrl) {
+      return NextResponse.json({ error: 'No PFP found for this FID' }, { status: 404 });
+    }
+
+    let fetched;
+    try {
+      fetched = await fetchPfp(pfpUrl);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return NextResponse.json({ error: `Failed to fetch PFP: ${message}` }, { status: 502 });
+    }
+
+    return new NextResponse(new Uint8Array(fetched.pfp.data), {
+      headers: {
+        'Content-Type': fetched.pfp.contentType,
+        'Cache-Control': 'public, max-age=600',
+        'X-PFP-Cache': fetched.cached ? 'hit' : 'miss',
+        // SVG PFPs must never run scripts on our origin
+        'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'",
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error proxying PFP:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to proxy PFP: ${message}` }, { status: 500 });
+  }
+}
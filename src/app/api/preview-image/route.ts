@@ -0,0 +1,55 @@
+/**
+ * API Route: Watermarked Preview
+ * Serves the watermarked low-resolution preview of a cached candidate. The
+ * clean image behind it is only pinned and revealed once its mint is
+ * confirmed (see record-mint).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findCandidate, imageVersion } from '@/lib/generation-jobs';
+import { fetchGeneratedImage } from '@/lib/fetch-image';
+import { PREVIEW_MIME_TYPE, renderWatermarkedPreview } from '@/lib/watermark';
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { searchParams } = new URL(request.url);
+    const fid = parseInt(searchParams.get('fid') ?? '', 10);
+    const seed = parseInt(searchParams.get('seed') ?? '', 10);
+    const dna = searchParams.get('dna');
+    const promptVersion = searchParams.get('version');
+    const version = searchParams.get('v');
+
+    if (isNaN(fid) || isNaN(seed) || !dna || !promptVersion || !version) {
+      return NextResponse.json({ error: 'Missing or invalid parameters: fid, dna, version, seed, v' }, { status: 400 });
+    }
+
+    // A repainted candidate has a new version, so old preview URLs stop resolving
+    const candidate = await findCandidate(fid, dna, promptVersion, seed);
+    if (!candidate || imageVersion(candidate.imageUrl) !== version) {
+      return NextResponse.json({ error: 'Preview not found' }, { status: 404 });
+    }
+
+    let image;
+    try {
+      image = await fetchGeneratedImage(candidate.imageUrl);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return NextResponse.json({ error: `Failed to fetch generated image: ${message}` }, { status: 502 });
+    }
+
+    const preview = await renderWatermarkedPreview(image);
+
+    return new NextResponse(new Uint8Array(preview), {
+      headers: {
+        'Content-Type': PREVIEW_MIME_TYPE,
+        // The URL pins the exact image, so the preview never changes
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    console.error('Error rendering preview:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to render preview: ${message}` }, { status: 500 });
+  }
+}
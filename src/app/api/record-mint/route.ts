@@ -1,56 +1,89 @@
 /**
  * API Route: Record Mint
- * Records a successful NFT mint to database
+ * Records a successful NFT mint to database once the contract confirms it,
+ * then reveals the clean image the token was minted as a preview of
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { recordMint } from '@/lib/db-operations';
+import { getMintPreview, getNFTByFID, recordMint } from '@/lib/db-operations';
+import { getMintedToken } from '@/lib/nft-contract-server';
+import { revealMint, toRevealStatus } from '@/lib/mint-reveal';
+import { refreshTraitStats } from '@/lib/trait-stats';
+
+// Revealing pins the clean image and may wait for an updateTokenURI transaction
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest): Promise<NextResponse> {
   try {
     const body = await request.json();
-    const {
-      fid,
-      username,
-      token_id,
-      image_ipfs_uri,
-      image_gateway_url,
-      metadata_ipfs_uri,
-      metadata_gateway_url,
-      traits,
-      tx_hash,
-    } = body;
-
-    if (
-      !fid ||
-      !username ||
-      token_id === undefined ||
-      !image_ipfs_uri ||
-      !image_gateway_url ||
-      !metadata_ipfs_uri ||
-      !metadata_gateway_url ||
-      !traits ||
-      !tx_hash
-    ) {
+    const { fid, username, tx_hash } = body;
+
+    if (!fid || !username || !tx_hash) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
     }
 
-    // Record mint
-    await recordMint({
+    // Nothing is revealed for a mint the contract does not know about
+    const token = await getMintedToken(fid);
+    if (!token) {
+      return NextResponse.json({ error: 'Mint not confirmed on-chain yet' }, { status: 409 });
+    }
+
+    // The traits and candidate come from the preview the token was minted with,
+    // which compress-and-upload validated, screened and recorded before payment
+    const preview = await getMintPreview(token.tokenUri);
+    if (!preview || preview.fid !== fid) {
+      return NextResponse.json({ error: 'Token was not minted with a preview of this FID' }, { status: 409 });
+    }
+
+    // Record mint; the image and final metadata are set by the reveal
+    const recorded = await recordMint({
       fid,
       username,
-      token_id,
-      image_ipfs_uri,
-      image_gateway_url,
-      metadata_ipfs_uri,
-      metadata_gateway_url,
-      traits,
+      token_id: token.tokenId,
+      image_ipfs_uri: null,
+      image_gateway_url: null,
+      metadata_ipfs_uri: null,
+      metadata_gateway_url: null,
+      traits: preview.traits,
+      trait_dna: preview.trait_dna,
+      prompt_version: preview.prompt_version,
+      image_directory_uri: null,
+      image_seed: preview.image_seed,
+      preview_metadata_uri: preview.preview_metadata_uri,
       tx_hash,
     });
 
+    // Only previews pinned before DNA reservations existed can collide; the
+    // token stays on-chain with its preview for an admin to resolve
+    if (!recorded) {
+      console.error(
+        `Trait DNA ${preview.trait_dna} of FID ${fid} (token ${token.tokenId}, tx ${tx_hash}) was already minted by another FID`
+      );
+      return NextResponse.json(
+        {
+          error: 'Your mint went through, but another character with these exact traits was recorded first. Please contact support with your transaction hash.',
+          code: 'trait_dna_taken',
+          tokenId: token.tokenId,
+        },
+        { status: 409 }
+      );
+    }
+    refreshTraitStats();
+
+    // The mint stands even if the reveal fails; POST /api/reveal-mint retries it
+    let reveal = null;
+    try {
+      const nft = await getNFTByFID(fid);
+      if (nft) reveal = toRevealStatus(await revealMint(nft));
+    } catch (revealError) {
+      console.error(`Error revealing mint of FID ${fid}:`, revealError);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Mint recorded successfully',
+      tokenId: token.tokenId,
+      reveal,
     });
   } catch (error) {
     console.error('Error recording mint:', error);
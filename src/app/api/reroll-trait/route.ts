@@ -0,0 +1,101 @@
+/**
+ * API Route: Reroll Trait
+ * Rerolls one trait slot before minting. Each FID may reroll a single slot up
+ * to MAX_TRAIT_REROLLS times; the seed and count are persisted so reloading
+ * the page neither resets the limit nor brings back earlier rolls. Only the
+ * FID's own signed-in user may spend its rerolls.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  rerollTraitSlot,
+  verifyTraits,
+  traitsToAttributes,
+  calculateRarity,
+  computeTraitDNA,
+  hasKnownTheme,
+  MAX_TRAIT_REROLLS,
+  type CharacterTraits,
+} from '@/lib/trait-generator';
+import { getTheme } from '@/lib/themes';
+import { checkFIDMinted, getTraitReroll, isTraitDNATaken, saveTraitReroll } from '@/lib/db-operations';
+import { requireFid } from '@/lib/farcaster-auth';
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const body = await request.json();
+    const { fid, slot } = body;
+    const traits: CharacterTraits | undefined = body.traits;
+
+    if (!fid || !slot || !traits) {
+      return NextResponse.json({ error: 'Missing required fields: fid, traits, slot' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(fid) || fid <= 0) {
+      return NextResponse.json({ error: 'Invalid FID' }, { status: 400 });
+    }
+
+    const unauthorized = await requireFid(request, fid);
+    if (unauthorized) return unauthorized;
+
+    if (!hasKnownTheme(traits)) {
+      return NextResponse.json({ error: 'Unknown theme or art style' }, { status: 400 });
+    }
+
+    const slotKeys = getTheme(traits.theme).slots.map(({ key }) => key);
+    if (!slotKeys.includes(slot)) {
+      return NextResponse.json(
+        { error: `Invalid slot. Must be one of: ${slotKeys.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (await checkFIDMinted(fid)) {
+      return NextResponse.json({ error: 'This FID has already minted' }, { status: 409 });
+    }
+
+    if (!verifyTraits(fid, traits)) {
+      return NextResponse.json({ error: 'Traits do not match this FID' }, { status: 400 });
+    }
+
+    const reroll = await getTraitReroll(fid);
+    const used = reroll?.count ?? 0;
+
+    if (reroll && reroll.slot !== slot) {
+      return NextResponse.json({ error: `Rerolls are locked to ${reroll.slot}` }, { status: 409 });
+    }
+
+    if (used >= MAX_TRAIT_REROLLS) {
+      return NextResponse.json({ error: 'No rerolls left' }, { status: 429 });
+    }
+
+    // Rerolling from anything but the latest roll would let stale rolls back in
+    if ((traits.rerollSeed ?? 0) !== (reroll?.seed ?? 0)) {
+      return NextResponse.json({ error: 'Traits are out of date, please regenerate' }, { status: 409 });
+    }
+
+    const rerolled = await rerollTraitSlot(fid, traits, slot, (dna) => isTraitDNATaken(dna, fid));
+
+    const saved = await saveTraitReroll(
+      { fid, slot, seed: rerolled.rerollSeed ?? 0, count: used + 1 },
+      reroll ? reroll.count : null
+    );
+    if (!saved) {
+      return NextResponse.json({ error: 'Another reroll is already in progress' }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      traits: rerolled,
+      dna: computeTraitDNA(rerolled),
+      rarity: calculateRarity(rerolled),
+      attributes: traitsToAttributes(rerolled),
+      rerollSlot: slot,
+      rerollsLeft: MAX_TRAIT_REROLLS - (used + 1),
+    });
+  } catch (error) {
+    console.error('Error rerolling trait:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to reroll trait: ${message}` }, { status: 500 });
+  }
+}
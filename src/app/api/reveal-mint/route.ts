@@ -0,0 +1,35 @@
+/**
+ * API Route: Reveal Mint
+ * Retries the reveal of a recorded mint whose clean image could not be
+ * pinned, or whose token still points at its preview metadata. Only mints
+ * already confirmed by record-mint can be revealed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNFTByFID } from '@/lib/db-operations';
+import { revealMint, toRevealStatus } from '@/lib/mint-reveal';
+
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const { fid } = await request.json();
+
+    if (!Number.isInteger(fid) || fid <= 0) {
+      return NextResponse.json({ error: 'Invalid FID' }, { status: 400 });
+    }
+
+    const nft = await getNFTByFID(fid);
+    if (!nft) {
+      return NextResponse.json({ error: 'No mint recorded for this FID' }, { status: 404 });
+    }
+
+    const reveal = toRevealStatus(await revealMint(nft));
+
+    return NextResponse.json({ success: true, reveal });
+  } catch (error) {
+    console.error('Error revealing mint:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to reveal mint: ${message}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * API Route: Trait Stats
+ * Returns per-trait-type counts and percentages across the minted collection
+ */
+
+import { NextResponse } from 'next/server';
+import { getTraitStats } from '@/lib/trait-stats';
+
+export async function GET(): Promise<NextResponse> {
+  try {
+    const stats = await getTraitStats();
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...stats,
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Error fetching trait stats:', error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json({ error: `Failed to fetch trait stats: ${message}` }, { status: 500 });
+  }
+}
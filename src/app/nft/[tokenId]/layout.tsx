@@ -24,7 +24,8 @@ export async function generateMetadata({ params }: Props): Promise<Metadata> {
 
     const { nft } = data;
     const pageUrl = `${baseUrl}/nft/${tokenId}`;
-    const imageUrl = nft.imageUrl;
+    // Embeds need an http(s) PNG; older mints only have the IPFS master
+    const imageUrl = nft.derivatives?.['1200']?.png ?? nft.imageUrl;
 
     // Build Mini App Embed JSON
     const miniAppEmbed = {
@@ -22,6 +22,15 @@ export default async function OGImage({ params }: { params: { tokenId: string }
     }
 
     const { nft } = data;
+    // The OG renderer cannot decode AVIF or WebP; unrevealed tokens show their
+    // watermarked preview
+    const imageUrl =
+      nft.derivatives?.['1200']?.png ??
+      nft.imageUrl ??
+      (nft.previewImageUrl ? `${baseUrl}${nft.previewImageUrl}` : null);
+    if (!imageUrl) {
+      throw new Error('NFT has no image yet');
+    }
 
     return new ImageResponse(
       (
@@ -50,7 +59,7 @@ export default async function OGImage({ params }: { params: { tokenId: string }
             }}
           >
             <img
-              src={nft.imageUrl}
+              src={imageUrl}
               alt={`Winter Cheer #${nft.fid}`}
               width={600}
               height={600}
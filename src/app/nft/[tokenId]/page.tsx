@@ -8,16 +8,18 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Sparkles, Share2, Loader2, ArrowLeft, Zap, ExternalLink } from 'lucide-react';
 import Link from 'next/link';
-import type { WinterCheerTraits } from '@/lib/trait-generator';
+import { TRAIT_META_KEYS, type CharacterTraits } from '@/lib/trait-generator';
+import type { ImageDerivativeUrls } from '@/lib/image-derivatives';
 
 interface NFTData {
   tokenId: string;
   fid: number;
   username: string;
-  imageUrl: string;
-  traits: WinterCheerTraits;
-  imageIpfsUri: string;
-  metadataIpfsUri: string;
+  imageUrl: string | null; // Null until revealed
+  traits: CharacterTraits;
+  imageIpfsUri: string | null;
+  metadataIpfsUri: string | null;
+  derivatives: ImageDerivativeUrls | null; // Missing for mints pinned before derivatives
   mintedAt: string;
 }
 
@@ -163,11 +165,28 @@ export default function NFTDetailPage() {
           <CardContent className="p-8 space-y-6">
             {/* NFT Image */}
             <div className="relative aspect-square rounded-2xl overflow-hidden border-4 border-transparent christmas-lights">
-              <img 
-                src={nftData.imageUrl} 
-                alt={`Winter Cheer #${nftData.fid}`} 
-                className="w-full h-full object-cover"
-              />
+              {nftData.derivatives ? (
+                <picture className="block w-full h-full">
+                  <source type="image/avif" srcSet={`${nftData.derivatives['512'].avif} 512w, ${nftData.derivatives['1200'].avif} 1200w`} />
+                  <source type="image/webp" srcSet={`${nftData.derivatives['512'].webp} 512w, ${nftData.derivatives['1200'].webp} 1200w`} />
+                  <img
+                    src={nftData.derivatives['1200'].png}
+                    alt={`Winter Cheer #${nftData.fid}`}
+                    className="w-full h-full object-cover"
+                  />
+                </picture>
+              ) : !nftData.imageUrl ? (
+                <div className="w-full h-full flex flex-col items-center justify-center gap-3 bg-gradient-to-br from-blue-100 to-purple-100 text-gray-700">
+                  <Loader2 className="w-10 h-10 animate-spin" />
+                  <p className="font-semibold">Revealing your Winter Cheer...</p>
+                </div>
+              ) : (
+                <img 
+                  src={nftData.imageUrl} 
+                  alt={`Winter Cheer #${nftData.fid}`} 
+                  className="w-full h-full object-cover"
+                />
+              )}
               <div className="absolute top-4 right-4">
                 <Badge className="bg-green-500 text-white text-lg px-4 py-2 shadow-lg">
                   <Sparkles className="w-4 h-4 mr-1" />
@@ -183,7 +202,9 @@ export default function NFTDetailPage() {
                 Character Traits
               </h3>
               <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                {Object.entries(nftData.traits).map(([key, value]) => (
+                {Object.entries(nftData.traits)
+                  .filter(([key]) => !TRAIT_META_KEYS.includes(key))
+                  .map(([key, value]) => (
                   <div key={key} className="trait-badge text-center">
                     <div className="text-xs text-gray-500 font-semibold uppercase tracking-wide">
                       {key.replace(/([A-Z])/g, ' $1').trim()}
@@ -194,30 +215,32 @@ export default function NFTDetailPage() {
               </div>
             </div>
 
-            {/* Metadata Links */}
-            <div className="space-y-3 pt-4 border-t-2 border-gray-200">
-              <h4 className="font-bold text-gray-700 text-sm uppercase tracking-wide">On-Chain Info</h4>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                <a 
-                  href={nftData.imageIpfsUri.replace('ipfs://', 'https://amber-neighbouring-crayfish-334.mypinata.cloud/ipfs/')}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
-                >
-                  <span className="text-sm font-medium text-gray-700">View Image on IPFS</span>
-                  <ExternalLink className="w-4 h-4 text-gray-500" />
-                </a>
-                <a 
-                  href={nftData.metadataIpfsUri.replace('ipfs://', 'https://amber-neighbouring-crayfish-334.mypinata.cloud/ipfs/')}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
-                >
-                  <span className="text-sm font-medium text-gray-700">View Metadata</span>
-                  <ExternalLink className="w-4 h-4 text-gray-500" />
-                </a>
+            {/* Metadata Links, once revealed */}
+            {nftData.imageIpfsUri && nftData.metadataIpfsUri && (
+              <div className="space-y-3 pt-4 border-t-2 border-gray-200">
+                <h4 className="font-bold text-gray-700 text-sm uppercase tracking-wide">On-Chain Info</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <a 
+                    href={nftData.imageIpfsUri.replace('ipfs://', 'https://amber-neighbouring-crayfish-334.mypinata.cloud/ipfs/')}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    <span className="text-sm font-medium text-gray-700">View Image on IPFS</span>
+                    <ExternalLink className="w-4 h-4 text-gray-500" />
+                  </a>
+                  <a 
+                    href={nftData.metadataIpfsUri.replace('ipfs://', 'https://amber-neighbouring-crayfish-334.mypinata.cloud/ipfs/')}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center justify-between p-3 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+                  >
+                    <span className="text-sm font-medium text-gray-700">View Metadata</span>
+                    <ExternalLink className="w-4 h-4 text-gray-500" />
+                  </a>
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Share Button */}
             <div className="pt-6 space-y-3">
@@ -8,7 +8,7 @@ import dynamic from 'next/dynamic';
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { sdk } from '@farcaster/miniapp-sdk';
-import { Loader2, Sparkles, Gift, Snowflake, Settings } from 'lucide-react';
+import { Loader2, Sparkles, Gift, Snowflake, Settings, BarChart3 } from 'lucide-react';
 import { useAddMiniApp } from '@/hooks/useAddMiniApp';
 import { useQuickAuth } from '@/hooks/useQuickAuth';
 import { useIsInFarcaster } from '@/hooks/useIsInFarcaster';
@@ -170,6 +170,12 @@ export default function HomePage() {
                 <span className="text-sm text-gray-700">Mint Limit</span>
               </div>
             </div>
+            <Link href="/stats" className="glass-card px-6 py-3 rounded-full hover:scale-105 transition-all">
+              <div className="flex items-center gap-2">
+                <BarChart3 className="w-5 h-5 text-purple-500" />
+                <span className="font-bold text-purple-600">Trait Stats</span>
+              </div>
+            </Link>
           </div>
         </div>
 
@@ -0,0 +1,140 @@
+/**
+ * Winter Cheer Trait Stats
+ * Public page showing how traits are distributed across the minted collection
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, BarChart3, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { TraitStats } from '@/lib/trait-stats';
+
+const BAR_COLORS = ['#dc2626', '#16a34a', '#eab308', '#2563eb', '#9333ea'];
+
+export default function TraitStatsPage() {
+  const [stats, setStats] = useState<TraitStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadStats() {
+      try {
+        setLoading(true);
+
+        const res = await fetch('/api/stats/traits');
+        const data = await res.json();
+
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to load trait stats');
+        }
+
+        setStats(data);
+      } catch (err) {
+        console.error('Error loading trait stats:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load trait stats');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadStats();
+  }, []);
+
+  if (loading) {
+    return (
+      <main className="min-h-screen winter-gradient flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-12 flex flex-col items-center gap-4">
+            <Loader2 className="w-12 h-12 animate-spin text-red-500" />
+            <p className="text-gray-600 text-center">Loading trait stats...</p>
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <main className="min-h-screen winter-gradient flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-8 text-center space-y-4">
+            <h2 className="text-xl font-bold text-gray-800">Stats Unavailable</h2>
+            <p className="text-gray-600">{error || 'No stats yet'}</p>
+            <Link href="/">
+              <Button className="w-full">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Mint
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen winter-gradient p-4 py-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/">
+          <Button variant="outline" className="mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Collection
+          </Button>
+        </Link>
+
+        <Card className="nft-card overflow-hidden">
+          <div className="bg-gradient-to-r from-red-500 via-yellow-500 to-green-500 p-6">
+            <div className="flex items-center justify-between">
+              <h1 className="text-3xl font-bold text-white drop-shadow-lg flex items-center gap-2">
+                <BarChart3 className="w-8 h-8" />
+                Trait Distribution
+              </h1>
+              <Badge className="bg-white text-gray-800 font-bold text-lg px-4 py-2">
+                {stats.totalMinted} minted
+              </Badge>
+            </div>
+          </div>
+          <CardContent className="p-6">
+            <p className="text-sm text-gray-500">
+              Updated {new Date(stats.updatedAt).toLocaleString('en-US')}
+            </p>
+          </CardContent>
+        </Card>
+
+        {stats.traits.map((trait, index) => (
+          <Card key={trait.traitType} className="festive-card">
+            <CardHeader>
+              <CardTitle className="text-xl font-bold text-gray-800">{trait.traitType}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div style={{ height: Math.max(160, trait.values.length * 32) }}>
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={trait.values} layout="vertical" margin={{ left: 24, right: 24 }}>
+                    <XAxis type="number" unit="%" domain={[0, 'dataMax']} />
+                    <YAxis type="category" dataKey="value" width={160} tick={{ fontSize: 12 }} />
+                    <Tooltip
+                      formatter={(percentage: number, _name, item) => [
+                        `${percentage}% (${item.payload.count})`,
+                        'Share',
+                      ]}
+                    />
+                    <Bar
+                      dataKey="percentage"
+                      fill={BAR_COLORS[index % BAR_COLORS.length]}
+                      radius={[0, 6, 6, 0]}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -12,22 +12,196 @@ import { analyzePFPClient } from '@/lib/pfp-analyzer';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Sparkles, Gift, AlertCircle, Heart, Star, Zap } from 'lucide-react';
+import { Loader2, Sparkles, Gift, AlertCircle, Heart, Star, Zap, Brush, Dices } from 'lucide-react';
 import { WalletConnectButton } from '@/components/WalletConnectButton';
 import { useAutoConnectWallet } from '@/hooks/useAutoConnectWallet';
 import { prepareMintTransaction, getTotalMinted } from '@/lib/nft-contract';
-import type { WinterCheerTraits } from '@/lib/trait-generator';
-
-type MintStatus = 'idle' | 'checking' | 'analyzing' | 'generating' | 'uploading' | 'minting' | 'success' | 'error';
+import { calculateRarity, TRAIT_META_KEYS, type CharacterGender, type CharacterTraits } from '@/lib/trait-generator';
+import { getActiveTheme } from '@/lib/themes';
+import { singleColorPalette, type ColorPalette } from '@/lib/color-utils';
+import type { PaletteSource } from '@/lib/palette-core';
+import { mapPaletteToTheme } from '@/lib/palette-mapping';
+import { derivativeGatewayUrl } from '@/lib/image-derivatives';
+import type { CandidatePreview, GenerationPreview, GenerationResult, JobStatus } from '@/lib/generation-jobs';
+import type { RevealStatus } from '@/lib/mint-reveal';
+
+type MintStatus =
+  | 'idle'
+  | 'checking'
+  | 'analyzing'
+  | 'generating'
+  | 'rerolling'
+  | 'uploading'
+  | 'minting'
+  | 'success'
+  | 'error';
 
 interface NFTData {
-  imageUrl: string;
-  traits: WinterCheerTraits;
+  imageUrl: string; // Watermarked preview until the mint is revealed, empty while revealing
+  seed?: number; // Candidate being minted
+  candidates?: CandidatePreview[]; // Images to choose from before minting
+  traits: CharacterTraits;
   attributes: Array<{ trait_type: string; value: string | number }>;
+  promptVersion?: string;
+  rerollSlot?: string | null;
+  rerollsLeft?: number;
+  previewMetadataIpfsUri?: string; // Pre-reveal metadata the token is minted with
+  // Clean image and final metadata, set once revealed
   imageIpfsUri?: string;
   imageGatewayUrl?: string;
   metadataIpfsUri?: string;
   metadataGatewayUrl?: string;
+  imageDirectoryUri?: string; // IPFS directory of the image's derivatives
+}
+
+interface GenerationProgress {
+  progress: number;
+  stage: string | null;
+}
+
+// Poll the status endpoint this often when the event stream is unavailable
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// The server confirms mints through its own RPC, which may lag the wallet's
+const RECORD_MINT_ATTEMPTS = 5;
+const RECORD_MINT_RETRY_MS = 3000;
+
+/**
+ * Follow a generation job until it finishes
+ * Streams status over SSE and falls back to polling if the stream drops.
+ * @returns The generate-nft payload of the finished job
+ */
+async function waitForGenerationJob(
+  jobId: string,
+  onProgress: (progress: GenerationProgress) => void
+): Promise<GenerationResult> {
+  const settle = (status: JobStatus) => {
+    onProgress({ progress: status.progress, stage: status.stage });
+    if (status.status === 'done') return status.result;
+    if (status.status === 'failed') throw new Error(status.error || 'Failed to generate NFT');
+    return null;
+  };
+
+  // Stream until a final status arrives or the connection drops
+  const streamed = await new Promise<JobStatus | null>((resolve) => {
+    if (typeof EventSource === 'undefined') return resolve(null);
+
+    const events = new EventSource(`/api/generation-jobs/${jobId}/events`);
+    events.addEventListener('status', (event) => {
+      const status: JobStatus = JSON.parse((event as MessageEvent).data);
+      onProgress({ progress: status.progress, stage: status.stage });
+      if (status.status === 'done' || status.status === 'failed') {
+        events.close();
+        resolve(status);
+      }
+    });
+    events.onerror = () => {
+      events.close();
+      resolve(null);
+    };
+  });
+
+  const streamedResult = streamed && settle(streamed);
+  if (streamedResult) {
+    return streamedResult;
+  }
+
+  while (true) {
+    const res = await fetch(`/api/generation-jobs/${jobId}`);
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.error || 'Failed to fetch generation status');
+    }
+
+    const result = settle(data);
+    if (result) return result;
+
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Pin the watermarked preview of a candidate with the metadata it is minted with
+ * @returns The ipfs:// URI of the pre-reveal metadata
+ */
+async function pinPreview(
+  fid: number,
+  traits: CharacterTraits,
+  promptVersion: string,
+  seed: number
+): Promise<string> {
+  const uploadRes = await fetch('/api/compress-and-upload', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fid, traits, promptVersion, seed }),
+  });
+
+  const uploadData = await uploadRes.json();
+  if (!uploadData.success) {
+    throw new Error(uploadData.error || 'Failed to upload');
+  }
+
+  return uploadData.previewMetadataIpfsUri;
+}
+
+/**
+ * Record a confirmed mint, which reveals its clean image
+ * Retries while the server cannot see the mint on-chain yet; a 409 with a code
+ * is a conflict retrying cannot resolve.
+ * @returns The reveal, null when it has to be retried later
+ */
+async function recordConfirmedMint(body: Record<string, unknown>): Promise<RevealStatus | null> {
+  for (let attempt = 1; ; attempt++) {
+    const res = await fetch('/api/record-mint', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+    const data = await res.json();
+    if (data.success) return data.reveal;
+    if (res.status !== 409 || data.code || attempt >= RECORD_MINT_ATTEMPTS) {
+      throw new Error(data.error || 'Failed to record mint');
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RECORD_MINT_RETRY_MS));
+  }
+}
+
+/**
+ * Ask the server to (re)try revealing a recorded mint
+ */
+async function requestReveal(fid: number): Promise<RevealStatus> {
+  const res = await fetch('/api/reveal-mint', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fid }),
+  });
+
+  const data = await res.json();
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to reveal mint');
+  }
+  return data.reveal;
+}
+
+/**
+ * Show the clean image of a revealed mint in place of its preview
+ */
+function withReveal(nftData: NFTData, reveal: RevealStatus | null): NFTData {
+  if (!reveal?.revealed) return nftData;
+
+  return {
+    ...nftData,
+    // Prefer the 1200px WebP over the full-size master
+    imageUrl: reveal.imageDirectoryUri
+      ? derivativeGatewayUrl(reveal.imageDirectoryUri, 1200, 'webp')
+      : reveal.imageGatewayUrl || nftData.imageUrl,
+    imageGatewayUrl: reveal.imageGatewayUrl ?? undefined,
+    metadataIpfsUri: reveal.metadataIpfsUri ?? undefined,
+    metadataGatewayUrl: reveal.metadataGatewayUrl ?? undefined,
+    imageDirectoryUri: reveal.imageDirectoryUri ?? undefined,
+  };
 }
 
 export function WinterCheerMint() {
@@ -39,8 +213,10 @@ export function WinterCheerMint() {
   const [fid, setFid] = useState<number | null>(null);
   const [username, setUsername] = useState<string | null>(null);
   const [pfpUrl, setPfpUrl] = useState<string | null>(null);
-  const [dominantColor, setDominantColor] = useState<string | null>(null);
-  const [gender, setGender] = useState<'Male' | 'Female'>('Female');
+  const [palette, setPalette] = useState<ColorPalette | null>(null);
+  const [paletteSource, setPaletteSource] = useState<PaletteSource | null>(null);
+  const [gender, setGender] = useState<CharacterGender>('Female');
+  const [artStyle, setArtStyle] = useState<string>(getActiveTheme().stylePresets[0].id);
 
   const [mintStatus, setMintStatus] = useState<MintStatus>('idle');
   const [statusMessage, setStatusMessage] = useState<string>('');
@@ -49,6 +225,8 @@ export function WinterCheerMint() {
   const [maxSupply] = useState<number>(10000);
 
   const [nftData, setNftData] = useState<NFTData | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const [selectedRerollSlot, setSelectedRerollSlot] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Initialize Farcaster SDK
@@ -93,16 +271,55 @@ export function WinterCheerMint() {
 
           if (data.hasMinted && data.nft) {
             // Load existing NFT - use gateway URLs for display
-            setNftData({
-              imageUrl: data.nft.image_gateway_url || data.nft.image_ipfs_uri, // Use gateway URL first
+            const minted: NFTData = {
+              imageUrl: data.nft.image_gateway_url || data.nft.image_ipfs_uri || '',
               traits: data.nft.traits,
               attributes: [],
-              imageIpfsUri: data.nft.image_ipfs_uri,
-              imageGatewayUrl: data.nft.image_gateway_url,
-              metadataIpfsUri: data.nft.metadata_ipfs_uri,
-              metadataGatewayUrl: data.nft.metadata_gateway_url,
-            });
+              imageIpfsUri: data.nft.image_ipfs_uri ?? undefined,
+            };
+            setNftData(
+              withReveal(minted, {
+                revealed: Boolean(data.nft.image_ipfs_uri),
+                imageGatewayUrl: data.nft.image_gateway_url,
+                imageDirectoryUri: data.nft.image_directory_uri,
+                metadataIpfsUri: data.nft.metadata_ipfs_uri,
+                metadataGatewayUrl: data.nft.metadata_gateway_url,
+                tokenUriUpdated: true,
+              })
+            );
             setMintStatus('success');
+
+            // A mint whose reveal failed is retried on the next visit
+            if (!data.nft.image_ipfs_uri) {
+              setStatusMessage('Revealing your Winter Cheer... ✨');
+              try {
+                const reveal = await requestReveal(data.nft.fid);
+                setNftData(withReveal(minted, reveal));
+                setStatusMessage('');
+              } catch (revealErr) {
+                console.error('Error revealing mint:', revealErr);
+                setStatusMessage('Your Winter Cheer is minted! Its artwork is still being revealed, please check back soon.');
+              }
+            }
+          } else if (data.preview) {
+            // Restore the last generated preview; it is pinned to IPFS when minted
+            const preview: GenerationPreview = data.preview;
+            setNftData({
+              imageUrl: preview.previewUrl,
+              seed: preview.candidates[0].seed,
+              candidates: preview.candidates,
+              traits: preview.traits,
+              attributes: preview.attributes,
+              promptVersion: preview.promptVersion,
+              rerollSlot: preview.rerollSlot,
+              rerollsLeft: preview.rerollsLeft,
+            });
+            setGender(preview.traits.gender);
+            if (preview.traits.artStyle) {
+              setArtStyle(preview.traits.artStyle);
+            }
+            setMintStatus('idle');
+            setStatusMessage('Welcome back! Your Winter Cheer is ready to mint 🎄');
           } else {
             setMintStatus('idle');
           }
@@ -138,80 +355,123 @@ export function WinterCheerMint() {
 
   // Analyze PFP when user arrives
   useEffect(() => {
-    if (!pfpUrl || dominantColor) return;
+    if (!pfpUrl || palette) return;
 
     async function analyzePFP() {
       try {
-        const color = await analyzePFPClient(pfpUrl);
-        setDominantColor(color);
+        const analysis = await analyzePFPClient(pfpUrl, fid);
+        // Preview the colors the way trait generation will map them
+        setPalette(fid ? mapPaletteToTheme(analysis.palette, fid, getActiveTheme()) : analysis.palette);
+        setPaletteSource(analysis.source);
       } catch (err) {
         console.error('Error analyzing PFP:', err);
-        setDominantColor('#DC2626'); // Fallback
+        setPalette(singleColorPalette(getActiveTheme().fallbackColor)); // Fallback
+        setPaletteSource('fallback');
       }
     }
 
     analyzePFP();
-  }, [pfpUrl, dominantColor]);
+  }, [pfpUrl, fid, palette]);
 
   const handleGenerate = async () => {
-    if (!fid || !dominantColor) return;
+    if (!fid || !palette) return;
 
     try {
       setError(null);
       setMintStatus('generating');
       setStatusMessage('Creating your magical Winter Cheer character... ✨');
+      setGenerationProgress({ progress: 0, stage: 'Queued' });
 
-      // Generate NFT
-      const genRes = await fetch('/api/generate-nft', {
+      // Start (or rejoin) the generation job, then follow it to the result
+      const jobRes = await fetch('/api/generate-nft', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ fid, gender, dominantColor }),
+        body: JSON.stringify({ fid, gender, artStyle }),
       });
 
-      const genData = await genRes.json();
-      if (!genData.success) {
-        throw new Error(genData.error || 'Failed to generate NFT');
+      const jobData = await jobRes.json();
+      if (!jobData.success) {
+        throw new Error(jobData.error || 'Failed to generate NFT');
       }
 
-      setStatusMessage('Compressing and uploading to IPFS... 📦');
-      setMintStatus('uploading');
-
-      // Compress and upload to IPFS
-      const uploadRes = await fetch('/api/compress-and-upload', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          imageUrl: genData.imageUrl,
-          fid,
-          traits: genData.traits,
-          attributes: genData.attributes,
-        }),
-      });
-
-      const uploadData = await uploadRes.json();
-      if (!uploadData.success) {
-        throw new Error(uploadData.error || 'Failed to upload');
-      }
+      const genData = await waitForGenerationJob(jobData.jobId, setGenerationProgress);
+      setGenerationProgress(null);
 
+      // Only the candidate the user keeps is pinned, as a watermarked preview, when minting
       setNftData({
-        imageUrl: uploadData.imageGatewayUrl,
+        imageUrl: genData.previewUrl,
+        seed: genData.candidates[0].seed,
+        candidates: genData.candidates,
         traits: genData.traits,
         attributes: genData.attributes,
-        imageIpfsUri: uploadData.imageIpfsUri,
-        imageGatewayUrl: uploadData.imageGatewayUrl,
-        metadataIpfsUri: uploadData.metadataIpfsUri,
-        metadataGatewayUrl: uploadData.metadataGatewayUrl,
+        promptVersion: genData.promptVersion,
+        rerollSlot: genData.rerollSlot,
+        rerollsLeft: genData.rerollsLeft,
       });
 
+      // The server reads the PFP on its own, and may have fallen back to theme
+      // colors even though this browser could read it
+      setPaletteSource(genData.paletteSource);
+      const paletteNotice =
+        genData.paletteSource === 'fallback' ? "Couldn't read your profile picture, so we picked festive colors. " : '';
+
       setMintStatus('idle');
-      setStatusMessage('Ready to mint your Winter Cheer! 🎄');
+      setStatusMessage(
+        paletteNotice +
+          (genData.candidates.length > 1
+            ? 'Pick your favorite, then mint your Winter Cheer! 🎄'
+            : 'Ready to mint your Winter Cheer! 🎄')
+      );
     } catch (err) {
       console.error('Error generating NFT:', err);
+      setGenerationProgress(null);
       setError(err instanceof Error ? err.message : 'Unknown error');
       setMintStatus('error');
     }
   };
 
+  const handleReroll = async () => {
+    const slot = nftData?.rerollSlot ?? selectedRerollSlot;
+    if (!fid || !nftData || !slot) return;
+
+    try {
+      setError(null);
+      setMintStatus('rerolling');
+      setStatusMessage('Shaking the snow globe for a new trait... 🎲');
+
+      // Rerolls are limited per FID, so the request carries a Quick Auth token proving it
+      const rerollRes = await sdk.quickAuth.fetch('/api/reroll-trait', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fid, traits: nftData.traits, slot }),
+      });
+
+      const rerollData = await rerollRes.json();
+      if (!rerollData.success) {
+        throw new Error(rerollData.error || 'Failed to reroll trait');
+      }
+
+      // The server applies the recorded reroll, so regenerating renders the new trait
+      await handleGenerate();
+    } catch (err) {
+      console.error('Error rerolling trait:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setMintStatus('error');
+    }
+  };
+
+  const handleSelectCandidate = (candidate: CandidatePreview) => {
+    if (!nftData || nftData.seed === candidate.seed) return;
+
+    // A different image needs its own upload
+    setNftData({
+      ...nftData,
+      imageUrl: candidate.previewUrl,
+      seed: candidate.seed,
+      previewMetadataIpfsUri: undefined,
+    });
+  };
+
   const handleMint = async () => {
     if (!nftData || !fid || !address || !walletClient) return;
 
@@ -220,12 +480,20 @@ export function WinterCheerMint() {
       setMintStatus('minting');
       setStatusMessage('Preparing mint transaction... 🎁');
 
-      // Prepare mint transaction with metadata URI
-      if (!nftData.metadataIpfsUri) {
-        throw new Error('Metadata IPFS URI is missing');
+      // Previews are pinned only once the user decides to mint
+      const { seed, promptVersion } = nftData;
+      let previewMetadataIpfsUri = nftData.previewMetadataIpfsUri;
+      if (!previewMetadataIpfsUri) {
+        if (seed === undefined || !promptVersion) {
+          throw new Error('Please generate your character again');
+        }
+        setStatusMessage('Uploading your preview to IPFS... 📦');
+        previewMetadataIpfsUri = await pinPreview(fid, nftData.traits, promptVersion, seed);
+        setNftData({ ...nftData, previewMetadataIpfsUri });
       }
-      
-      const mintTx = prepareMintTransaction(address, fid, nftData.metadataIpfsUri);
+
+      // The token is minted against the preview and revealed once recorded
+      const mintTx = prepareMintTransaction(address, fid, previewMetadataIpfsUri);
 
       setStatusMessage('Please confirm transaction in your wallet... 💰');
 
@@ -246,44 +514,23 @@ export function WinterCheerMint() {
         throw new Error('Transaction failed on-chain');
       }
 
-      // Extract token ID from transaction logs
-      // The TokenMinted event emits (address indexed to, uint256 indexed tokenId, uint256 indexed fid)
-      let tokenId = fid; // Fallback to FID if we can't parse logs
-      
-      if (receipt.logs && receipt.logs.length > 0) {
-        // Find the Transfer event (last one is usually the mint)
-        const transferLog = receipt.logs.find(log => 
-          log.topics.length === 4 && // Transfer has 3 indexed params + event signature
-          log.topics[0] === '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef' // Transfer event signature
-        );
-        
-        if (transferLog && transferLog.topics[3]) {
-          // tokenId is the 3rd indexed parameter (topics[3])
-          tokenId = Number(transferLog.topics[3]);
-        }
-      }
-
-      setStatusMessage('NFT Minted! Recording to database... 📝');
+      setStatusMessage('NFT Minted! Revealing your Winter Cheer... ✨');
 
-      // Record mint to database with actual token ID from blockchain
-      await fetch('/api/record-mint', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          fid,
-          username: username || `User ${fid}`,
-          token_id: tokenId, // Real token ID from blockchain
-          image_ipfs_uri: nftData.imageIpfsUri,
-          image_gateway_url: nftData.imageGatewayUrl,
-          metadata_ipfs_uri: nftData.metadataIpfsUri,
-          metadata_gateway_url: nftData.metadataGatewayUrl,
-          traits: nftData.traits,
-          tx_hash: hash,
-        }),
+      // The server reads the token and its preview from the contract and
+      // reveals the clean image that preview was pinned for
+      const reveal = await recordConfirmedMint({
+        fid,
+        username: username || `User ${fid}`,
+        tx_hash: hash,
       });
+      setNftData(withReveal({ ...nftData, previewMetadataIpfsUri }, reveal));
 
       setMintStatus('success');
-      setStatusMessage('Minted successfully! 🎉');
+      setStatusMessage(
+        reveal?.revealed
+          ? 'Minted successfully! 🎉'
+          : 'Minted successfully! 🎉 Your artwork is still being revealed, please check back soon.'
+      );
       setHasMinted(true);
       setTotalMinted((prev) => prev + 1);
 
@@ -311,6 +558,13 @@ export function WinterCheerMint() {
     }
   };
 
+  const rarity = nftData?.traits ? calculateRarity(nftData.traits) : null;
+
+  // Minting waits for any reroll, generation or upload, and for a candidate to
+  // be chosen unless its preview is already pinned
+  const isBusy = ['rerolling', 'generating', 'uploading', 'minting'].includes(mintStatus);
+  const canMint = !isBusy && (nftData?.seed !== undefined || Boolean(nftData?.previewMetadataIpfsUri));
+
   if (!isConnected || walletStatus !== 'connected') {
     return (
       <div className="nft-card p-8 max-w-2xl mx-auto">
@@ -379,7 +633,7 @@ export function WinterCheerMint() {
               <Heart className="w-5 h-5 text-red-500" />
               Choose Your Character Gender
             </label>
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <Button
                 variant={gender === 'Female' ? 'default' : 'outline'}
                 onClick={() => setGender('Female')}
@@ -400,22 +654,70 @@ export function WinterCheerMint() {
                   {gender === 'Male' && <Star className="w-5 h-5 text-yellow-300" />}
                 </span>
               </Button>
+              <Button
+                variant={gender === 'Neutral' ? 'default' : 'outline'}
+                onClick={() => setGender('Neutral')}
+                className="h-20 text-lg kawaii-button relative overflow-hidden group"
+              >
+                <span className="relative z-10 flex items-center gap-2">
+                  ⛄ Neutral
+                  {gender === 'Neutral' && <Star className="w-5 h-5 text-yellow-300" />}
+                </span>
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Art Style Selection */}
+        {!nftData && !hasMinted && mintStatus !== 'checking' && (
+          <div className="space-y-4">
+            <label className="text-lg font-bold text-gray-800 flex items-center gap-2">
+              <Brush className="w-5 h-5 text-green-600" />
+              Choose Your Art Style
+            </label>
+            <div className="grid grid-cols-2 gap-4">
+              {getActiveTheme().stylePresets.map((preset) => (
+                <Button
+                  key={preset.id}
+                  variant={artStyle === preset.id ? 'default' : 'outline'}
+                  onClick={() => setArtStyle(preset.id)}
+                  className="h-14 text-base kawaii-button relative overflow-hidden group"
+                >
+                  <span className="relative z-10 flex items-center gap-2">
+                    {preset.label}
+                    {artStyle === preset.id && <Star className="w-4 h-4 text-yellow-300" />}
+                  </span>
+                </Button>
+              ))}
             </div>
           </div>
         )}
 
         {/* Color Preview */}
-        {dominantColor && !nftData && !hasMinted && mintStatus !== 'checking' && (
+        {palette && !nftData && !hasMinted && mintStatus !== 'checking' && (
           <div className="festive-card p-6 rounded-xl">
             <div className="flex items-center gap-4">
               <div
                 className="w-20 h-20 rounded-2xl border-4 border-white shadow-lg glow-pulse"
-                style={{ backgroundColor: dominantColor, animation: 'glow-pulse 2s ease-in-out infinite' }}
+                style={{ backgroundColor: palette.primary, animation: 'glow-pulse 2s ease-in-out infinite' }}
               />
               <div>
-                <p className="font-bold text-gray-800 text-lg">Your Personal Color 🎨</p>
-                <p className="text-gray-600">Extracted from your profile picture</p>
-                <p className="text-sm text-gray-500 font-mono mt-1">{dominantColor}</p>
+                <p className="font-bold text-gray-800 text-lg">Your Personal Palette 🎨</p>
+                <p className="text-gray-600">
+                  {paletteSource === 'fallback'
+                    ? "Couldn't read your profile picture, so we picked festive colors"
+                    : 'Extracted from your profile picture'}
+                </p>
+                <div className="flex gap-2 mt-2">
+                  {palette.colors.map((color, index) => (
+                    <div
+                      key={index}
+                      title={color}
+                      className="w-8 h-8 rounded-lg border-2 border-white shadow"
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
               </div>
             </div>
           </div>
@@ -425,7 +727,13 @@ export function WinterCheerMint() {
         {nftData && (
           <div className="space-y-6">
             <div className="relative aspect-square rounded-2xl overflow-hidden border-4 border-transparent christmas-lights">
-              <img src={nftData.imageUrl} alt="Winter Cheer NFT" className="w-full h-full object-cover" />
+              {nftData.imageUrl ? (
+                <img src={nftData.imageUrl} alt="Winter Cheer NFT" className="w-full h-full object-cover" />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-blue-100 to-purple-100">
+                  <Loader2 className="w-10 h-10 animate-spin text-gray-600" />
+                </div>
+              )}
               {mintStatus === 'success' && (
                 <div className="absolute top-4 right-4">
                   <Badge className="bg-green-500 text-white text-lg px-4 py-2 shadow-lg">
@@ -436,14 +744,45 @@ export function WinterCheerMint() {
               )}
             </div>
 
+            {/* Candidate Chooser */}
+            {!hasMinted && mintStatus !== 'success' && (nftData.candidates?.length ?? 0) > 1 && (
+              <div className="space-y-2">
+                <p className="text-sm font-semibold text-gray-700">Pick your favorite version</p>
+                <div className="grid grid-cols-4 gap-2">
+                  {nftData.candidates?.map((candidate, index) => (
+                    <button
+                      key={candidate.seed}
+                      type="button"
+                      onClick={() => handleSelectCandidate(candidate)}
+                      disabled={isBusy}
+                      className={`aspect-square rounded-xl overflow-hidden border-4 transition ${
+                        candidate.seed === nftData.seed
+                          ? 'border-green-500 shadow-lg'
+                          : 'border-transparent opacity-70 hover:opacity-100'
+                      }`}
+                    >
+                      <img src={candidate.previewUrl} alt={`Version ${index + 1}`} className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Traits */}
             <div className="space-y-3">
               <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
                 <Zap className="w-5 h-5 text-yellow-500" />
                 Character Traits
+                {rarity && (
+                  <Badge className="ml-auto bg-purple-500 text-white px-3 py-1">
+                    {rarity.rank} • Score {rarity.score}
+                  </Badge>
+                )}
               </h3>
               <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                {Object.entries(nftData.traits).map(([key, value]) => (
+                {Object.entries(nftData.traits)
+                  .filter(([key]) => !TRAIT_META_KEYS.includes(key))
+                  .map(([key, value]) => (
                   <div key={key} className="trait-badge text-center">
                     <div className="text-xs text-gray-500 font-semibold uppercase tracking-wide">
                       {key.replace(/([A-Z])/g, ' $1').trim()}
@@ -453,6 +792,45 @@ export function WinterCheerMint() {
                 ))}
               </div>
             </div>
+
+            {/* Trait Reroll */}
+            {!hasMinted && mintStatus !== 'success' && (nftData.rerollsLeft ?? 0) > 0 && (
+              <div className="festive-card p-4 rounded-xl space-y-3">
+                <p className="font-bold text-gray-800 flex items-center gap-2">
+                  <Dices className="w-5 h-5 text-purple-500" />
+                  {nftData.rerollSlot ? 'Reroll your trait' : 'Pick one trait to reroll'}
+                  <Badge className="ml-auto bg-purple-100 text-purple-800">
+                    {nftData.rerollsLeft} left
+                  </Badge>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {getActiveTheme().slots.map(({ key, label }) => (
+                    <Button
+                      key={key}
+                      size="sm"
+                      variant={(nftData.rerollSlot ?? selectedRerollSlot) === key ? 'default' : 'outline'}
+                      disabled={!!nftData.rerollSlot && nftData.rerollSlot !== key}
+                      onClick={() => setSelectedRerollSlot(key)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                <Button
+                  onClick={handleReroll}
+                  disabled={!(nftData.rerollSlot ?? selectedRerollSlot) || isBusy}
+                  variant="outline"
+                  className="w-full kawaii-button"
+                >
+                  {mintStatus === 'rerolling' || mintStatus === 'generating' || mintStatus === 'uploading' ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Dices className="w-4 h-4 mr-2" />
+                  )}
+                  Reroll
+                </Button>
+              </div>
+            )}
           </div>
         )}
 
@@ -480,13 +858,17 @@ export function WinterCheerMint() {
             {!nftData ? (
               <Button
                 onClick={handleGenerate}
-                disabled={mintStatus === 'generating' || mintStatus === 'uploading' || !dominantColor}
+                disabled={mintStatus === 'generating' || mintStatus === 'uploading' || !palette}
                 className="w-full h-16 text-xl font-bold glow-button kawaii-button bg-gradient-to-r from-red-500 to-green-500 hover:from-red-600 hover:to-green-600"
               >
                 {mintStatus === 'generating' || mintStatus === 'uploading' ? (
                   <>
                     <Loader2 className="w-6 h-6 mr-3 animate-spin" />
-                    {mintStatus === 'generating' ? 'Creating Magic...' : 'Uploading...'}
+                    {mintStatus === 'uploading'
+                      ? 'Uploading...'
+                      : generationProgress?.stage
+                        ? `${generationProgress.stage}... ${generationProgress.progress}%`
+                        : 'Creating Magic...'}
                   </>
                 ) : (
                   <>
@@ -498,7 +880,7 @@ export function WinterCheerMint() {
             ) : (
               <Button
                 onClick={handleMint}
-                disabled={mintStatus === 'minting'}
+                disabled={!canMint}
                 className="w-full h-16 text-xl font-bold glow-button kawaii-button bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600"
               >
                 {mintStatus === 'minting' ? (
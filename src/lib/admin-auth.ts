@@ -0,0 +1,28 @@
+/**
+ * Admin API Authentication
+ * Admin routes are disabled unless ADMIN_API_KEY is set, and require it as a
+ * bearer token
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Reject requests that are not from an admin
+ * @returns NextResponse | null - The error response, null when the request may proceed
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return NextResponse.json({ error: 'Admin API is disabled' }, { status: 404 });
+  }
+
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const expected = Buffer.from(adminKey);
+  const given = Buffer.from(token);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return null;
+}
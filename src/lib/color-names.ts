@@ -0,0 +1,345 @@
+/**
+ * Named Color Dictionary
+ * Curated color names used to describe PFP colors in prompts and metadata.
+ * Based on the CSS named colors, extended with common paint, fabric and
+ * festive names so nearby shades get distinct, recognizable names.
+ */
+
+export interface NamedColor {
+  name: string;
+  hex: string;
+}
+
+// [name, hex] - names are Title Case and unique
+const COLOR_TABLE: Array<[string, string]> = [
+  // Reds
+  ['Red', '#FF0000'],
+  ['Crimson', '#DC143C'],
+  ['Scarlet', '#FF2400'],
+  ['Cherry Red', '#D2042D'],
+  ['Candy Apple Red', '#FF0800'],
+  ['Fire Engine Red', '#CE2029'],
+  ['Cardinal Red', '#C41E3A'],
+  ['Carmine', '#960018'],
+  ['Ruby', '#E0115F'],
+  ['Garnet', '#733635'],
+  ['Brick Red', '#CB4154'],
+  ['Firebrick', '#B22222'],
+  ['Dark Red', '#8B0000'],
+  ['Blood Red', '#660000'],
+  ['Maroon', '#800000'],
+  ['Burgundy', '#800020'],
+  ['Wine', '#722F37'],
+  ['Oxblood', '#4A0000'],
+  ['Indian Red', '#CD5C5C'],
+  ['Rust', '#B7410E'],
+  ['Vermilion', '#E34234'],
+  ['Tomato', '#FF6347'],
+  ['Poppy', '#E35335'],
+  ['Raspberry', '#E30B5C'],
+  ['Cranberry', '#9F000F'],
+  ['Holly Berry', '#B3002D'],
+  ['Poinsettia Red', '#BE1E2D'],
+  ['Santa Red', '#D42426'],
+
+  // Pinks
+  ['Pink', '#FFC0CB'],
+  ['Light Pink', '#FFB6C1'],
+  ['Baby Pink', '#F4C2C2'],
+  ['Blush', '#DE5D83'],
+  ['Rose', '#FF007F'],
+  ['Rose Pink', '#FF66CC'],
+  ['Dusty Rose', '#C9A9A6'],
+  ['Old Rose', '#C08081'],
+  ['Hot Pink', '#FF69B4'],
+  ['Deep Pink', '#FF1493'],
+  ['Bubblegum Pink', '#FFC1CC'],
+  ['Carnation Pink', '#FFA6C9'],
+  ['Flamingo Pink', '#FC8EAC'],
+  ['Salmon Pink', '#FF91A4'],
+  ['Magenta', '#FF00FF'],
+  ['Fuchsia', '#C154C1'],
+  ['Cerise', '#DE3163'],
+  ['Pale Violet Red', '#DB7093'],
+  ['Medium Violet Red', '#C71585'],
+  ['Misty Rose', '#FFE4E1'],
+  ['Lavender Blush', '#FFF0F5'],
+  ['Candy Cane Pink', '#F7A1B5'],
+  ['Peppermint Pink', '#F5A3C0'],
+
+  // Oranges
+  ['Orange', '#FFA500'],
+  ['Dark Orange', '#FF8C00'],
+  ['Orange Red', '#FF4500'],
+  ['Tangerine', '#F28500'],
+  ['Pumpkin', '#FF7518'],
+  ['Carrot Orange', '#ED9121'],
+  ['Burnt Orange', '#CC5500'],
+  ['Persimmon', '#EC5800'],
+  ['Mandarin', '#F37A48'],
+  ['Apricot', '#FBCEB1'],
+  ['Peach', '#FFE5B4'],
+  ['Peach Puff', '#FFDAB9'],
+  ['Papaya Whip', '#FFEFD5'],
+  ['Cantaloupe', '#FFA62F'],
+  ['Coral', '#FF7F50'],
+  ['Light Coral', '#F08080'],
+  ['Living Coral', '#FA7268'],
+  ['Salmon', '#FA8072'],
+  ['Light Salmon', '#FFA07A'],
+  ['Dark Salmon', '#E9967A'],
+  ['Terracotta', '#E2725B'],
+  ['Copper', '#B87333'],
+  ['Amber', '#FFBF00'],
+  ['Marigold', '#EAA221'],
+  ['Saffron', '#F4C430'],
+  ['Gingerbread', '#A0522D'],
+
+  // Yellows
+  ['Yellow', '#FFFF00'],
+  ['Lemon Yellow', '#FFF44F'],
+  ['Canary Yellow', '#FFEF00'],
+  ['Sunflower Yellow', '#FFDA03'],
+  ['Golden Yellow', '#FFDF00'],
+  ['Gold', '#FFD700'],
+  ['Metallic Gold', '#D4AF37'],
+  ['Goldenrod', '#DAA520'],
+  ['Dark Goldenrod', '#B8860B'],
+  ['Pale Goldenrod', '#EEE8AA'],
+  ['Light Goldenrod', '#FAFAD2'],
+  ['Mustard', '#FFDB58'],
+  ['Dijon', '#C49102'],
+  ['Honey', '#EBA937'],
+  ['Butter Yellow', '#FFFD74'],
+  ['Banana Yellow', '#FFE135'],
+  ['Pastel Yellow', '#FDFD96'],
+  ['Light Yellow', '#FFFFE0'],
+  ['Lemon Chiffon', '#FFFACD'],
+  ['Cream', '#FFFDD0'],
+  ['Cornsilk', '#FFF8DC'],
+  ['Champagne', '#F7E7CE'],
+  ['Khaki', '#F0E68C'],
+  ['Dark Khaki', '#BDB76B'],
+  ['Ochre', '#CC7722'],
+  ['Brass', '#B5A642'],
+  ['Star Gold', '#F9D71C'],
+
+  // Greens
+  ['Green', '#008000'],
+  ['Lime', '#00FF00'],
+  ['Lime Green', '#32CD32'],
+  ['Lawn Green', '#7CFC00'],
+  ['Chartreuse', '#7FFF00'],
+  ['Green Yellow', '#ADFF2F'],
+  ['Yellow Green', '#9ACD32'],
+  ['Electric Lime', '#CCFF00'],
+  ['Neon Green', '#39FF14'],
+  ['Kelly Green', '#4CBB17'],
+  ['Shamrock Green', '#009E60'],
+  ['Emerald', '#50C878'],
+  ['Jade', '#00A86B'],
+  ['Malachite', '#0BDA51'],
+  ['Spring Green', '#00FF7F'],
+  ['Medium Spring Green', '#00FA9A'],
+  ['Mint Green', '#98FF98'],
+  ['Mint Cream', '#F5FFFA'],
+  ['Honeydew', '#F0FFF0'],
+  ['Pale Green', '#98FB98'],
+  ['Light Green', '#90EE90'],
+  ['Pistachio', '#93C572'],
+  ['Sage', '#BCB88A'],
+  ['Sage Green', '#9CAF88'],
+  ['Celadon', '#ACE1AF'],
+  ['Tea Green', '#D0F0C0'],
+  ['Olive', '#808000'],
+  ['Olive Drab', '#6B8E23'],
+  ['Dark Olive Green', '#556B2F'],
+  ['Army Green', '#4B5320'],
+  ['Moss Green', '#8A9A5B'],
+  ['Fern Green', '#4F7942'],
+  ['Avocado', '#568203'],
+  ['Asparagus', '#87A96B'],
+  ['Forest Green', '#228B22'],
+  ['Hunter Green', '#355E3B'],
+  ['Dark Green', '#006400'],
+  ['British Racing Green', '#004225'],
+  ['Bottle Green', '#006A4E'],
+  ['Pine Green', '#01796F'],
+  ['Evergreen', '#05472A'],
+  ['Christmas Tree Green', '#0F6B3A'],
+  ['Holly Green', '#2E6F40'],
+  ['Mistletoe Green', '#5A8C3A'],
+  ['Sea Green', '#2E8B57'],
+  ['Medium Sea Green', '#3CB371'],
+  ['Dark Sea Green', '#8FBC8F'],
+  ['Light Sea Green', '#20B2AA'],
+  ['Medium Aquamarine', '#66CDAA'],
+  ['Aquamarine', '#7FFFD4'],
+
+  // Cyans and teals
+  ['Cyan', '#00FFFF'],
+  ['Light Cyan', '#E0FFFF'],
+  ['Dark Cyan', '#008B8B'],
+  ['Aqua', '#00F5FF'],
+  ['Turquoise', '#40E0D0'],
+  ['Medium Turquoise', '#48D1CC'],
+  ['Dark Turquoise', '#00CED1'],
+  ['Pale Turquoise', '#AFEEEE'],
+  ['Teal', '#008080'],
+  ['Deep Teal', '#005F5F'],
+  ['Tiffany Blue', '#0ABAB5'],
+  ['Robin Egg Blue', '#00CCCC'],
+  ['Seafoam Green', '#9FE2BF'],
+  ['Caribbean Green', '#00CC99'],
+  ['Viridian', '#40826D'],
+  ['Cadet Blue', '#5F9EA0'],
+  ['Glacier Blue', '#78B1BF'],
+  ['Frost', '#E1F5F7'],
+
+  // Blues
+  ['Blue', '#0000FF'],
+  ['Medium Blue', '#0000CD'],
+  ['Dark Blue', '#00008B'],
+  ['Navy', '#000080'],
+  ['Midnight Blue', '#191970'],
+  ['Oxford Blue', '#002147'],
+  ['Prussian Blue', '#003153'],
+  ['Sapphire', '#0F52BA'],
+  ['Cobalt Blue', '#0047AB'],
+  ['Royal Blue', '#4169E1'],
+  ['Ultramarine', '#3F00FF'],
+  ['Egyptian Blue', '#1034A6'],
+  ['Denim', '#1560BD'],
+  ['Azure', '#007FFF'],
+  ['Dodger Blue', '#1E90FF'],
+  ['Cornflower Blue', '#6495ED'],
+  ['Steel Blue', '#4682B4'],
+  ['Light Steel Blue', '#B0C4DE'],
+  ['Slate Blue', '#6A5ACD'],
+  ['Dark Slate Blue', '#483D8B'],
+  ['Medium Slate Blue', '#7B68EE'],
+  ['Deep Sky Blue', '#00BFFF'],
+  ['Sky Blue', '#87CEEB'],
+  ['Light Sky Blue', '#87CEFA'],
+  ['Baby Blue', '#89CFF0'],
+  ['Powder Blue', '#B0E0E6'],
+  ['Light Blue', '#ADD8E6'],
+  ['Pale Blue', '#AFDBF5'],
+  ['Alice Blue', '#F0F8FF'],
+  ['Periwinkle', '#CCCCFF'],
+  ['Cerulean', '#007BA7'],
+  ['Electric Blue', '#7DF9FF'],
+  ['Ice Blue', '#99FFFF'],
+  ['Arctic Blue', '#C6E6FB'],
+  ['Winter Sky', '#A9C6E8'],
+  ['Steel Gray Blue', '#5B7083'],
+  ['Air Force Blue', '#5D8AA8'],
+  ['Indigo', '#4B0082'],
+
+  // Purples
+  ['Purple', '#800080'],
+  ['Dark Magenta', '#8B008B'],
+  ['Dark Violet', '#9400D3'],
+  ['Dark Orchid', '#9932CC'],
+  ['Medium Orchid', '#BA55D3'],
+  ['Orchid', '#DA70D6'],
+  ['Violet', '#EE82EE'],
+  ['Plum', '#DDA0DD'],
+  ['Thistle', '#D8BFD8'],
+  ['Lavender', '#E6E6FA'],
+  ['Lilac', '#C8A2C8'],
+  ['Wisteria', '#C9A0DC'],
+  ['Mauve', '#E0B0FF'],
+  ['Heliotrope', '#DF73FF'],
+  ['Amethyst', '#9966CC'],
+  ['Medium Purple', '#9370DB'],
+  ['Blue Violet', '#8A2BE2'],
+  ['Rebecca Purple', '#663399'],
+  ['Royal Purple', '#7851A9'],
+  ['Grape', '#6F2DA8'],
+  ['Eggplant', '#614051'],
+  ['Aubergine', '#3D0734'],
+  ['Byzantium', '#702963'],
+  ['Plum Purple', '#580F41'],
+  ['Mulberry', '#C54B8C'],
+  ['Boysenberry', '#873260'],
+  ['Sugar Plum', '#914E75'],
+
+  // Browns
+  ['Brown', '#A52A2A'],
+  ['Saddle Brown', '#8B4513'],
+  ['Sienna', '#882D17'],
+  ['Burnt Sienna', '#E97451'],
+  ['Chocolate', '#D2691E'],
+  ['Dark Chocolate', '#490206'],
+  ['Cocoa Brown', '#35281E'],
+  ['Hot Cocoa', '#6F4E37'],
+  ['Coffee', '#4B3621'],
+  ['Espresso', '#3C2218'],
+  ['Mocha', '#967117'],
+  ['Chestnut', '#954535'],
+  ['Mahogany', '#C04000'],
+  ['Auburn', '#922724'],
+  ['Cinnamon', '#B5651D'],
+  ['Caramel', '#AF6E4D'],
+  ['Toffee', '#755139'],
+  ['Walnut', '#773F1A'],
+  ['Russet', '#80461B'],
+  ['Umber', '#635147'],
+  ['Sepia', '#704214'],
+  ['Bronze', '#CD7F32'],
+  ['Peru', '#CD853F'],
+  ['Sandy Brown', '#F4A460'],
+  ['Rosy Brown', '#BC8F8F'],
+  ['Tan', '#D2B48C'],
+  ['Camel', '#C19A6B'],
+  ['Fawn', '#E5AA70'],
+  ['Beige', '#F5F5DC'],
+  ['Burlywood', '#DEB887'],
+  ['Wheat', '#F5DEB3'],
+  ['Bisque', '#FFE4C4'],
+  ['Blanched Almond', '#FFEBCD'],
+  ['Moccasin', '#FFE4B5'],
+  ['Navajo White', '#FFDEAD'],
+  ['Antique White', '#FAEBD7'],
+  ['Linen', '#FAF0E6'],
+  ['Old Lace', '#FDF5E6'],
+  ['Taupe', '#483C32'],
+  ['Khaki Brown', '#8B7D6B'],
+
+  // Whites
+  ['White', '#FFFFFF'],
+  ['Snow', '#FFFAFA'],
+  ['Ivory', '#FFFFF0'],
+  ['Floral White', '#FFFAF0'],
+  ['Ghost White', '#F8F8FF'],
+  ['White Smoke', '#F5F5F5'],
+  ['Seashell', '#FFF5EE'],
+  ['Pearl', '#EAE0C8'],
+  ['Eggshell', '#F0EAD6'],
+  ['Alabaster', '#EDEAE0'],
+
+  // Grays and blacks
+  ['Gainsboro', '#DCDCDC'],
+  ['Light Gray', '#D3D3D3'],
+  ['Silver', '#C0C0C0'],
+  ['Platinum', '#E5E4E2'],
+  ['Dark Gray', '#A9A9A9'],
+  ['Gray', '#808080'],
+  ['Dim Gray', '#696969'],
+  ['Ash Gray', '#B2BEB5'],
+  ['Cool Gray', '#8C92AC'],
+  ['Warm Gray', '#8D8478'],
+  ['Light Slate Gray', '#778899'],
+  ['Slate Gray', '#708090'],
+  ['Dark Slate Gray', '#2F4F4F'],
+  ['Pewter', '#899499'],
+  ['Gunmetal', '#2A3439'],
+  ['Charcoal', '#36454F'],
+  ['Onyx', '#353839'],
+  ['Jet Black', '#343434'],
+  ['Raven Black', '#1C1C1C'],
+  ['Black', '#000000'],
+];
+
+export const NAMED_COLORS: NamedColor[] = COLOR_TABLE.map(([name, hex]) => ({ name, hex }));
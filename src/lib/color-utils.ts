@@ -0,0 +1,249 @@
+/**
+ * Color Utilities
+ * Hex/RGB/Lab conversion and color naming shared by the PFP analyzer, theme
+ * packs and prompt builder
+ */
+
+import { NAMED_COLORS, type NamedColor } from './color-names';
+
+/**
+ * Convert hex color to RGB
+ */
+export function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  return result
+    ? {
+        r: parseInt(result[1], 16),
+        g: parseInt(result[2], 16),
+        b: parseInt(result[3], 16),
+      }
+    : null;
+}
+
+/**
+ * Convert RGB to hex
+ */
+export function rgbToHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map((x) => x.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Convert hex color to HSL (hue in degrees, saturation and lightness 0-1)
+ */
+export function hexToHsl(hex: string): { h: number; s: number; l: number } {
+  const { r, g, b } = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+  const rNorm = r / 255;
+  const gNorm = g / 255;
+  const bNorm = b / 255;
+
+  const max = Math.max(rNorm, gNorm, bNorm);
+  const min = Math.min(rNorm, gNorm, bNorm);
+  const delta = max - min;
+  const l = (max + min) / 2;
+
+  if (delta === 0) {
+    return { h: 0, s: 0, l };
+  }
+
+  const s = l > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let h: number;
+  if (max === rNorm) h = (gNorm - bNorm) / delta + (gNorm < bNorm ? 6 : 0);
+  else if (max === gNorm) h = (bNorm - rNorm) / delta + 2;
+  else h = (rNorm - gNorm) / delta + 4;
+
+  return { h: h * 60, s, l };
+}
+
+export interface LabColor {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * Convert RGB to CIELAB (D65 white point)
+ */
+export function rgbToLab(r: number, g: number, b: number): LabColor {
+  // sRGB -> linear RGB
+  const [lr, lg, lb] = [r, g, b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+
+  // Linear RGB -> XYZ, normalized by the D65 reference white
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047;
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175;
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / 1.08883;
+
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * Convert hex color to CIELAB; invalid hex counts as black
+ */
+export function hexToLab(hex: string): LabColor {
+  const { r, g, b } = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+  return rgbToLab(r, g, b);
+}
+
+/**
+ * Convert CIELAB (D65 white point) to RGB, clamped to the sRGB gamut
+ */
+export function labToRgb({ l, a, b }: LabColor): { r: number; g: number; b: number } {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const finv = (t: number) => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+
+  const x = finv(fx) * 0.95047;
+  const y = finv(fy);
+  const z = finv(fz) * 1.08883;
+
+  // XYZ -> linear RGB -> sRGB
+  const linear = [
+    x * 3.2404542 - y * 1.5371385 - z * 0.4985314,
+    -x * 0.969266 + y * 1.8760108 + z * 0.041556,
+    x * 0.0556434 - y * 0.2040259 + z * 1.0572252,
+  ];
+  const [r, g, bl] = linear.map((c) => {
+    const srgb = c <= 0.0031308 ? 12.92 * c : 1.055 * Math.max(c, 0) ** (1 / 2.4) - 0.055;
+    return Math.round(Math.min(1, Math.max(0, srgb)) * 255);
+  });
+
+  return { r, g, b: bl };
+}
+
+/**
+ * Perceptual color difference between two Lab colors (CIEDE2000)
+ * Roughly 1 is a just noticeable difference.
+ */
+export function deltaE2000(first: LabColor, second: LabColor): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+  const c1 = Math.hypot(first.a, first.b);
+  const c2 = Math.hypot(second.a, second.b);
+  const cMean = (c1 + c2) / 2;
+  const g = 0.5 * (1 - Math.sqrt(cMean ** 7 / (cMean ** 7 + 25 ** 7)));
+
+  const a1 = first.a * (1 + g);
+  const a2 = second.a * (1 + g);
+  const c1p = Math.hypot(a1, first.b);
+  const c2p = Math.hypot(a2, second.b);
+  const h1p = c1p === 0 ? 0 : (toDeg(Math.atan2(first.b, a1)) + 360) % 360;
+  const h2p = c2p === 0 ? 0 : (toDeg(Math.atan2(second.b, a2)) + 360) % 360;
+
+  const deltaL = second.l - first.l;
+  const deltaC = c2p - c1p;
+  let deltaH = 0;
+  if (c1p * c2p !== 0) {
+    deltaH = h2p - h1p;
+    if (deltaH > 180) deltaH -= 360;
+    else if (deltaH < -180) deltaH += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRad(deltaH / 2));
+
+  const lMean = (first.l + second.l) / 2;
+  const cMeanP = (c1p + c2p) / 2;
+  let hMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hMean /= 2;
+    else hMean = h1p + h2p < 360 ? (hMean + 360) / 2 : (hMean - 360) / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRad(hMean - 30)) +
+    0.24 * Math.cos(toRad(2 * hMean)) +
+    0.32 * Math.cos(toRad(3 * hMean + 6)) -
+    0.2 * Math.cos(toRad(4 * hMean - 63));
+  const deltaTheta = 30 * Math.exp(-(((hMean - 275) / 25) ** 2));
+  const rc = 2 * Math.sqrt(cMeanP ** 7 / (cMeanP ** 7 + 25 ** 7));
+  const sl = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+  const sc = 1 + 0.045 * cMeanP;
+  const sh = 1 + 0.015 * cMeanP * t;
+  const rt = -Math.sin(toRad(2 * deltaTheta)) * rc;
+
+  return Math.sqrt(
+    (deltaL / sl) ** 2 +
+      (deltaC / sc) ** 2 +
+      (deltaHp / sh) ** 2 +
+      rt * (deltaC / sc) * (deltaHp / sh)
+  );
+}
+
+/**
+ * WCAG relative luminance (0 = black, 1 = white)
+ */
+export function relativeLuminance(hex: string): number {
+  const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+  const [lr, lg, lb] = [rgb.r, rgb.g, rgb.b].map((channel) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+}
+
+/**
+ * WCAG contrast ratio between two colors (1 to 21)
+ */
+export function contrastRatio(first: string, second: string): number {
+  const [lighter, darker] = [relativeLuminance(first), relativeLuminance(second)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Lab values of the dictionary, computed on first lookup
+let namedColorLabs: Array<{ color: NamedColor; lab: LabColor }> | null = null;
+
+/**
+ * Find the perceptually closest color in the named color dictionary
+ */
+export function nearestNamedColor(hex: string): NamedColor & { deltaE: number } {
+  const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+  const lab = rgbToLab(rgb.r, rgb.g, rgb.b);
+
+  namedColorLabs ??= NAMED_COLORS.map((color) => {
+    const { r, g, b } = hexToRgb(color.hex)!;
+    return { color, lab: rgbToLab(r, g, b) };
+  });
+
+  let best = namedColorLabs[0];
+  let bestDelta = Infinity;
+  for (const candidate of namedColorLabs) {
+    const delta = deltaE2000(lab, candidate.lab);
+    if (delta < bestDelta) {
+      best = candidate;
+      bestDelta = delta;
+    }
+  }
+
+  return { ...best.color, deltaE: bestDelta };
+}
+
+/**
+ * Convert hex color to descriptive color name for AI prompt
+ */
+export function hexToColorName(hex: string): string {
+  return nearestNamedColor(hex).name.toLowerCase();
+}
+
+/**
+ * Palette extracted from a PFP: primary is the most common color, secondary
+ * the next distinct one and accent the most saturated of the rest
+ */
+export interface ColorPalette {
+  primary: string;
+  secondary: string;
+  accent: string;
+  colors: string[]; // 3-5 distinct colors, most common first
+}
+
+/**
+ * Palette where every role uses the same color (fallbacks and legacy traits)
+ */
+export function singleColorPalette(color: string): ColorPalette {
+  return { primary: color, secondary: color, accent: color, colors: [color] };
+}
@@ -0,0 +1,73 @@
+/**
+ * Generated Image Color Verification
+ * Runs the palette analyzer over a generated image and measures how close
+ * it came to the hair and outfit colors the prompt asked for
+ */
+
+import { deltaE2000, hexToLab, hexToRgb } from './color-utils';
+import { fetchGeneratedImage } from './fetch-image';
+import { extractPaletteFromImage } from './pfp-analyzer-server';
+import type { CharacterTraits } from './trait-generator';
+
+// Trait slots the prompt requires to be rendered in their exact color
+const VERIFIED_SLOTS = ['hairColor', 'outfitColor'];
+
+// Largest deltaE2000 to the nearest extracted color that still counts as a hit
+export const COLOR_MATCH_MAX_DELTA_E = 20;
+
+// Distance at which a slot scores zero
+const ZERO_SCORE_DELTA_E = 50;
+
+export interface SlotColorMatch {
+  requested: string;
+  found: string | null; // Nearest color extracted from the image
+  deltaE: number;
+}
+
+export interface ColorMatch {
+  score: number; // 0-1, averaged over the verified slots
+  passed: boolean; // Every slot within COLOR_MATCH_MAX_DELTA_E
+  slots: Record<string, SlotColorMatch>;
+}
+
+/**
+ * Compare the colors of a generated image with the colors its traits requested
+ * @throws When the image cannot be fetched or decoded
+ */
+export async function verifyImageColors(imageUrl: string, traits: CharacterTraits): Promise<ColorMatch> {
+  const palette = await extractPaletteFromImage(await fetchGeneratedImage(imageUrl));
+  const extracted = (palette?.colors ?? []).map((hex) => ({ hex, lab: hexToLab(hex) }));
+
+  const slots: Record<string, SlotColorMatch> = {};
+  for (const slot of VERIFIED_SLOTS) {
+    const requested = traits[slot];
+    if (typeof requested !== 'string' || !hexToRgb(requested)) continue;
+    const requestedLab = hexToLab(requested);
+
+    let found: string | null = null;
+    let deltaE = Infinity;
+    for (const color of extracted) {
+      const delta = deltaE2000(requestedLab, color.lab);
+      if (delta < deltaE) {
+        found = color.hex;
+        deltaE = delta;
+      }
+    }
+
+    slots[slot] = { requested, found, deltaE };
+  }
+
+  const matches = Object.values(slots);
+  if (matches.length === 0) {
+    return { score: 1, passed: true, slots };
+  }
+
+  const score =
+    matches.reduce((sum, { deltaE }) => sum + Math.max(0, 1 - deltaE / ZERO_SCORE_DELTA_E), 0) / matches.length;
+
+  return {
+    score: Math.round(score * 1000) / 1000,
+    passed: matches.every(({ deltaE }) => deltaE <= COLOR_MATCH_MAX_DELTA_E),
+    slots,
+  };
+}
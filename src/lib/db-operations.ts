@@ -3,7 +3,18 @@
  * Handles all Supabase queries for mint tracking
  */
 
-import { supabase, isSupabaseConfigured, type MintedNFT, type NFTMetadataCache, type MintStats } from './supabase';
+import {
+  supabase,
+  isSupabaseConfigured,
+  type MintedNFT,
+  type NFTMetadataCache,
+  type MintStats,
+  type TraitReroll,
+  type GenerationJob,
+  type ModerationReview,
+  type ModerationReviewStatus,
+  type MintPreview,
+} from './supabase';
 
 /**
  * Check if a Farcaster FID has already minted
@@ -37,28 +48,38 @@ export async function checkFIDMinted(fid: number): Promise<boolean> {
 
 /**
  * Record a new NFT mint
+ * Mints of a watermarked preview are recorded without image or final metadata
+ * URIs; revealMintedNFT sets them once the clean image is pinned.
  * @param mintData - Mint details
+ * @returns boolean - false when another FID already minted this trait DNA
  */
 export async function recordMint(mintData: {
   fid: number;
   username: string;
   token_id: number;
-  image_ipfs_uri: string;
-  image_gateway_url: string;
-  metadata_ipfs_uri: string;
-  metadata_gateway_url: string;
+  image_ipfs_uri: string | null;
+  image_gateway_url: string | null;
+  metadata_ipfs_uri: string | null;
+  metadata_gateway_url: string | null;
   traits: Record<string, string | number>;
+  trait_dna: string;
+  prompt_version: string | null;
+  image_directory_uri: string | null;
+  image_seed: number | null;
+  preview_metadata_uri: string | null;
   tx_hash: string;
-}): Promise<void> {
+}): Promise<boolean> {
   if (!isSupabaseConfigured) {
     console.warn('Supabase not configured, skipping mint record');
-    return;
+    return true;
   }
 
   const { error: mintError } = await supabase
     .from('minted_nfts')
     .insert([mintData]);
 
+  // Unique violation on trait_dna (the one on fid is a genuine error)
+  if (mintError?.code === '23505' && mintError.message.includes('trait_dna')) return false;
   if (mintError) {
     console.error('Error recording mint:', mintError);
     throw new Error(`Failed to record mint: ${mintError.message}`);
@@ -70,6 +91,270 @@ export async function recordMint(mintData: {
   if (statsError) {
     console.error('Error updating mint stats:', statsError);
   }
+
+  return true;
+}
+
+/**
+ * Record the reveal of a minted NFT: its clean image and final metadata, or
+ * the transaction that pointed the token at them
+ */
+export async function revealMintedNFT(
+  fid: number,
+  changes: Partial<
+    Pick<
+      MintedNFT,
+      | 'image_ipfs_uri'
+      | 'image_gateway_url'
+      | 'metadata_ipfs_uri'
+      | 'metadata_gateway_url'
+      | 'image_directory_uri'
+      | 'revealed_at'
+      | 'reveal_tx_hash'
+    >
+  >
+): Promise<void> {
+  if (!isSupabaseConfigured) {
+    console.warn('Supabase not configured, skipping mint reveal');
+    return;
+  }
+
+  const { error } = await supabase
+    .from('minted_nfts')
+    .update(changes)
+    .eq('fid', fid);
+
+  if (error) {
+    console.error('Error recording mint reveal:', error);
+    throw new Error(`Failed to record mint reveal: ${error.message}`);
+  }
+}
+
+/**
+ * Check if a trait DNA has already been minted or reserved by another FID
+ * @param dna - Trait DNA hash
+ * @param fid - FID asking, whose own mint or reservation never counts as a collision
+ * @returns boolean - true if the DNA is taken
+ */
+export async function isTraitDNATaken(dna: string, fid: number): Promise<boolean> {
+  if (!isSupabaseConfigured) {
+    return false;
+  }
+
+  const [minted, reserved] = await Promise.all(
+    ['minted_nfts', 'trait_dna_reservations'].map((table) =>
+      supabase.from(table).select('fid').eq('trait_dna', dna).neq('fid', fid).limit(1)
+    )
+  );
+
+  const error = minted.error ?? reserved.error;
+  if (error) {
+    console.error('Error checking trait DNA:', error);
+    // Failing open would risk a duplicate, so surface the error
+    throw new Error(`Failed to check trait DNA: ${error.message}`);
+  }
+
+  return (minted.data?.length ?? 0) + (reserved.data?.length ?? 0) > 0;
+}
+
+/**
+ * Reserve a trait DNA for a FID before it pays for a preview
+ * @returns boolean - false when the DNA is reserved by another FID
+ */
+export async function reserveTraitDNA(dna: string, fid: number): Promise<boolean> {
+  if (!isSupabaseConfigured) {
+    console.warn('Supabase not configured, skipping trait DNA reservation');
+    return true;
+  }
+
+  const { error } = await supabase.from('trait_dna_reservations').insert([{ trait_dna: dna, fid }]);
+
+  // Unique violation: the DNA is already reserved, possibly by this FID
+  if (error?.code === '23505') {
+    const { data, error: ownerError } = await supabase
+      .from('trait_dna_reservations')
+      .select('fid')
+      .eq('trait_dna', dna)
+      .single();
+
+    if (ownerError) {
+      console.error('Error fetching trait DNA reservation:', ownerError);
+      throw new Error(`Failed to reserve trait DNA: ${ownerError.message}`);
+    }
+    return data.fid === fid;
+  }
+  if (error) {
+    console.error('Error reserving trait DNA:', error);
+    throw new Error(`Failed to reserve trait DNA: ${error.message}`);
+  }
+
+  return true;
+}
+
+/**
+ * Get the pre-mint reroll state of a FID
+ * @param fid - Farcaster ID
+ * @returns TraitReroll | null - null when the FID has not rerolled
+ */
+export async function getTraitReroll(fid: number): Promise<TraitReroll | null> {
+  if (!isSupabaseConfigured) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('trait_rerolls')
+    .select('*')
+    .eq('fid', fid)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching trait reroll:', error);
+    // Failing open would hand out unlimited rerolls, so surface the error
+    throw new Error(`Failed to fetch trait reroll: ${error.message}`);
+  }
+
+  return data as TraitReroll | null;
+}
+
+/**
+ * Save a reroll, only if no other reroll was saved since the state was read
+ * @param reroll - New reroll state
+ * @param previousCount - Count read before rerolling, null for the first reroll
+ * @returns boolean - false when a concurrent reroll got there first
+ */
+export async function saveTraitReroll(
+  reroll: { fid: number; slot: string; seed: number; count: number },
+  previousCount: number | null
+): Promise<boolean> {
+  if (!isSupabaseConfigured) {
+    console.warn('Supabase not configured, skipping trait reroll');
+    return true;
+  }
+
+  if (previousCount === null) {
+    const { error } = await supabase.from('trait_rerolls').insert([reroll]);
+
+    // Unique violation: another request recorded the first reroll
+    if (error?.code === '23505') return false;
+    if (error) {
+      console.error('Error saving trait reroll:', error);
+      throw new Error(`Failed to save trait reroll: ${error.message}`);
+    }
+    return true;
+  }
+
+  const { data, error } = await supabase
+    .from('trait_rerolls')
+    .update({ seed: reroll.seed, count: reroll.count, updated_at: new Date().toISOString() })
+    .eq('fid', reroll.fid)
+    .eq('count', previousCount)
+    .select('fid');
+
+  if (error) {
+    console.error('Error saving trait reroll:', error);
+    throw new Error(`Failed to save trait reroll: ${error.message}`);
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Create a queued generation job
+ * @param fid - Farcaster ID the job generates for
+ * @param input - Request the job runs with
+ * @returns GenerationJob
+ */
+export async function createGenerationJob(
+  fid: number,
+  input: Record<string, unknown>
+): Promise<GenerationJob> {
+  if (!isSupabaseConfigured) {
+    throw new Error('Supabase not configured, cannot create generation job');
+  }
+
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .insert([{ fid, input, status: 'queued', progress: 0 }])
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating generation job:', error);
+    throw new Error(`Failed to create generation job: ${error.message}`);
+  }
+
+  return data as GenerationJob;
+}
+
+/**
+ * Update the status, progress or outcome of a generation job
+ */
+export async function updateGenerationJob(
+  id: string,
+  changes: Partial<Pick<GenerationJob, 'status' | 'progress' | 'stage' | 'result' | 'error'>>
+): Promise<void> {
+  if (!isSupabaseConfigured) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('generation_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error updating generation job:', error);
+    throw new Error(`Failed to update generation job: ${error.message}`);
+  }
+}
+
+/**
+ * Get a generation job by id
+ * @returns GenerationJob | null - null when no such job exists
+ */
+export async function getGenerationJob(id: string): Promise<GenerationJob | null> {
+  if (!isSupabaseConfigured) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching generation job:', error);
+    throw new Error(`Failed to fetch generation job: ${error.message}`);
+  }
+
+  return data as GenerationJob | null;
+}
+
+/**
+ * Get the most recent queued or running generation job of a FID
+ * @returns GenerationJob | null - null when the FID has no unfinished job
+ */
+export async function getActiveGenerationJob(fid: number): Promise<GenerationJob | null> {
+  if (!isSupabaseConfigured) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('fid', fid)
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching active generation job:', error);
+    throw new Error(`Failed to fetch active generation job: ${error.message}`);
+  }
+
+  return data as GenerationJob | null;
 }
 
 /**
@@ -101,6 +386,8 @@ export async function getMintStats(): Promise<MintStats | null> {
 
 /**
  * Save metadata cache for preview
+ * Upserts on (fid, trait_dna, prompt_version) so repeat generations refresh
+ * one row, and bumps created_at so the latest preview is restored first.
  */
 export async function saveMetadataCache(cacheData: {
   fid: number;
@@ -108,6 +395,10 @@ export async function saveMetadataCache(cacheData: {
   dominant_color: string;
   traits: Record<string, string | number>;
   image_url: string;
+  trait_dna: string;
+  prompt_version: string;
+  color_match: number | null;
+  candidates: NFTMetadataCache['candidates'];
 }): Promise<void> {
   if (!isSupabaseConfigured) {
     console.warn('Supabase not configured, skipping metadata cache');
@@ -116,7 +407,9 @@ export async function saveMetadataCache(cacheData: {
 
   const { error } = await supabase
     .from('nft_metadata_cache')
-    .insert([cacheData]);
+    .upsert([{ ...cacheData, created_at: new Date().toISOString() }], {
+      onConflict: 'fid,trait_dna,prompt_version',
+    });
 
   if (error) {
     console.error('Error saving metadata cache:', error);
@@ -124,6 +417,228 @@ export async function saveMetadataCache(cacheData: {
   }
 }
 
+/**
+ * Get the cached generation of a FID's traits for a prompt version
+ * @returns NFTMetadataCache | null - null on a cache miss
+ */
+export async function getMetadataCache(
+  fid: number,
+  traitDna: string,
+  promptVersion: string
+): Promise<NFTMetadataCache | null> {
+  if (!isSupabaseConfigured) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('nft_metadata_cache')
+    .select('*')
+    .eq('fid', fid)
+    .eq('trait_dna', traitDna)
+    .eq('prompt_version', promptVersion)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching metadata cache:', error);
+    throw new Error(`Failed to fetch cache: ${error.message}`);
+  }
+
+  return data as NFTMetadataCache | null;
+}
+
+/**
+ * Get the most recent generation cached for a FID
+ * @returns NFTMetadataCache | null - null when the FID never generated
+ */
+export async function getLatestMetadataCache(fid: number): Promise<NFTMetadataCache | null> {
+  if (!isSupabaseConfigured) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('nft_metadata_cache')
+    .select('*')
+    .eq('fid', fid)
+    .not('image_url', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching latest metadata cache:', error);
+    throw new Error(`Failed to fetch cache: ${error.message}`);
+  }
+
+  return data as NFTMetadataCache | null;
+}
+
+/**
+ * Drop a FID's cached generations of a trait DNA, so the next generation
+ * paints a new image
+ */
+export async function deleteMetadataCache(fid: number, traitDna: string): Promise<void> {
+  if (!isSupabaseConfigured) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('nft_metadata_cache')
+    .delete()
+    .eq('fid', fid)
+    .eq('trait_dna', traitDna);
+
+  if (error) {
+    console.error('Error deleting metadata cache:', error);
+    throw new Error(`Failed to delete cache: ${error.message}`);
+  }
+}
+
+/**
+ * Record a pinned mint preview and the candidate it shows
+ */
+export async function saveMintPreview(preview: Omit<MintPreview, 'id' | 'created_at'>): Promise<void> {
+  if (!isSupabaseConfigured) {
+    console.warn('Supabase not configured, skipping mint preview');
+    return;
+  }
+
+  const { error } = await supabase.from('mint_previews').insert([preview]);
+
+  if (error) {
+    console.error('Error saving mint preview:', error);
+    throw new Error(`Failed to save mint preview: ${error.message}`);
+  }
+}
+
+/**
+ * Get the preview a token was minted with
+ * @param previewMetadataUri - The token's pre-reveal tokenURI
+ * @returns MintPreview | null - null when no such preview was pinned
+ */
+export async function getMintPreview(previewMetadataUri: string): Promise<MintPreview | null> {
+  if (!isSupabaseConfigured) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('mint_previews')
+    .select('*')
+    .eq('preview_metadata_uri', previewMetadataUri)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching mint preview:', error);
+    throw new Error(`Failed to fetch mint preview: ${error.message}`);
+  }
+
+  return data as MintPreview | null;
+}
+
+/**
+ * Get the moderation review of an image
+ * @param imageHash - SHA-256 of the generated image
+ * @returns ModerationReview | null - null when the image was never held
+ */
+export async function getModerationReview(fid: number, imageHash: string): Promise<ModerationReview | null> {
+  if (!isSupabaseConfigured) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('moderation_reviews')
+    .select('*')
+    .eq('fid', fid)
+    .eq('image_hash', imageHash)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching moderation review:', error);
+    throw new Error(`Failed to fetch moderation review: ${error.message}`);
+  }
+
+  return data as ModerationReview | null;
+}
+
+/**
+ * Record an image the classifier flagged or blocked
+ * Blocked images are recorded as rejected; flagged ones wait for review.
+ * @returns ModerationReview
+ */
+export async function createModerationReview(
+  review: Pick<ModerationReview, 'fid' | 'image_url' | 'image_hash' | 'traits' | 'classifier' | 'verdict' | 'reasons'>
+): Promise<ModerationReview> {
+  if (!isSupabaseConfigured) {
+    throw new Error('Supabase not configured, cannot hold image for review');
+  }
+
+  const { data, error } = await supabase
+    .from('moderation_reviews')
+    .insert([{ ...review, status: review.verdict === 'block' ? 'rejected' : 'pending' }])
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating moderation review:', error);
+    throw new Error(`Failed to create moderation review: ${error.message}`);
+  }
+
+  return data as ModerationReview;
+}
+
+/**
+ * List moderation reviews, oldest first
+ */
+export async function getModerationReviews(
+  status: ModerationReviewStatus = 'pending',
+  limit: number = 50
+): Promise<ModerationReview[]> {
+  if (!isSupabaseConfigured) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('moderation_reviews')
+    .select('*')
+    .eq('status', status)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching moderation reviews:', error);
+    throw new Error(`Failed to fetch moderation reviews: ${error.message}`);
+  }
+
+  return (data as ModerationReview[]) || [];
+}
+
+/**
+ * Approve or reject a pending moderation review
+ * @returns ModerationReview | null - null when no pending review has this id
+ */
+export async function resolveModerationReview(
+  id: string,
+  status: Exclude<ModerationReviewStatus, 'pending'>
+): Promise<ModerationReview | null> {
+  if (!isSupabaseConfigured) {
+    throw new Error('Supabase not configured, cannot resolve moderation review');
+  }
+
+  const { data, error } = await supabase
+    .from('moderation_reviews')
+    .update({ status, reviewed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error resolving moderation review:', error);
+    throw new Error(`Failed to resolve moderation review: ${error.message}`);
+  }
+
+  return data as ModerationReview | null;
+}
+
 /**
  * Get all minted NFTs (for gallery/leaderboard)
  */
@@ -154,6 +669,33 @@ export async function getAllMintedNFTs(
   }
 }
 
+/**
+ * Get one page of minted traits, oldest first so pages stay stable while minting
+ * Unlike getAllMintedNFTs this throws on query errors, so callers never mistake
+ * a failed read for an empty collection.
+ */
+export async function getMintedTraitsPage(
+  limit: number,
+  offset: number
+): Promise<Pick<MintedNFT, 'fid' | 'traits'>[]> {
+  if (!isSupabaseConfigured) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('minted_nfts')
+    .select('fid, traits')
+    .order('id', { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error('Error fetching minted traits:', error);
+    throw new Error(`Failed to fetch minted traits: ${error.message}`);
+  }
+
+  return (data as Pick<MintedNFT, 'fid' | 'traits'>[]) || [];
+}
+
 /**
  * Get NFT by FID
  */
@@ -180,3 +722,30 @@ export async function getNFTByFID(fid: number): Promise<MintedNFT | null> {
     return null;
   }
 }
+
+/**
+ * Get NFT by token ID
+ */
+export async function getNFTByTokenId(tokenId: number): Promise<MintedNFT | null> {
+  if (!isSupabaseConfigured) {
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('minted_nfts')
+      .select('*')
+      .eq('token_id', tokenId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching NFT by token ID:', error);
+      return null;
+    }
+
+    return data as MintedNFT | null;
+  } catch (error) {
+    console.error('Exception fetching NFT by token ID:', error);
+    return null;
+  }
+}
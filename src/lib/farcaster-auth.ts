@@ -0,0 +1,45 @@
+/**
+ * Farcaster Identity Verification
+ * Routes that spend a FID's limited state require a Quick Auth session token
+ * (sdk.quickAuth.fetch) issued to that FID for this app's domain
+ */
+
+import { createClient, Errors } from '@farcaster/quick-auth';
+import { NextRequest, NextResponse } from 'next/server';
+
+const quickAuth = createClient();
+
+/**
+ * Domain the mini app is served from, which Quick Auth tokens are issued for
+ */
+function appDomain(request: NextRequest): string {
+  const appUrl = process.env.NEXT_PUBLIC_URL;
+  return appUrl ? new URL(appUrl).hostname : request.nextUrl.hostname;
+}
+
+/**
+ * Reject requests that are not signed in as the given FID
+ * @returns NextResponse | null - The error response, null when the request may proceed
+ */
+export async function requireFid(request: NextRequest, fid: number): Promise<NextResponse | null> {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return NextResponse.json({ error: 'Sign in with Farcaster to continue' }, { status: 401 });
+  }
+
+  let payload;
+  try {
+    payload = await quickAuth.verifyJwt({ token, domain: appDomain(request) });
+  } catch (error) {
+    if (error instanceof Errors.InvalidTokenError) {
+      return NextResponse.json({ error: 'Invalid Farcaster session' }, { status: 401 });
+    }
+    throw error;
+  }
+
+  if (payload.sub !== fid) {
+    return NextResponse.json({ error: 'Signed in as a different FID' }, { status: 403 });
+  }
+
+  return null;
+}
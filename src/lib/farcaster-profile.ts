@@ -0,0 +1,42 @@
+/**
+ * Farcaster Profile Lookup
+ * Resolves profile data for a FID on the server through the Neynar API
+ */
+
+const NEYNAR_API_URL = 'https://api.neynar.com/v2/farcaster';
+
+interface NeynarUser {
+  fid: number;
+  username?: string;
+  pfp_url?: string;
+}
+
+/**
+ * Get the profile picture URL of a FID
+ * @param fid - Farcaster ID
+ * @returns string | null - null when the FID has no PFP or the lookup failed
+ */
+export async function getFarcasterPfpUrl(fid: number): Promise<string | null> {
+  const apiKey = process.env.NEYNAR_API_KEY;
+  if (!apiKey) {
+    console.warn('NEYNAR_API_KEY not set, cannot look up PFP');
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${NEYNAR_API_URL}/user/bulk?fids=${fid}`, {
+      headers: { 'x-api-key': apiKey },
+    });
+
+    if (!response.ok) {
+      console.error(`Failed to look up FID ${fid}: ${response.status} ${response.statusText}`);
+      return null;
+    }
+
+    const data: { users?: NeynarUser[] } = await response.json();
+    return data.users?.[0]?.pfp_url || null;
+  } catch (error) {
+    console.error('Error looking up Farcaster profile:', error);
+    return null;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Generated Image Downloads
+ * Shared by color verification, watermarked previews and reveals
+ */
+
+/**
+ * Download a generated image (provider URLs and data URLs alike)
+ */
+export async function fetchGeneratedImage(imageUrl: string): Promise<Buffer> {
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
@@ -0,0 +1,446 @@
+/**
+ * NFT Generation Jobs
+ * Runs the generation pipeline (PFP palette, traits, prompt, image) outside
+ * the request that started it, recording status and progress in
+ * generation_jobs so clients can poll or stream it. Painted images stay in
+ * nft_metadata_cache; clients only see watermarked previews of them until
+ * the mint is confirmed.
+ */
+
+import { keccak256, toBytes } from 'viem';
+import {
+  generateUniqueTraits,
+  traitsToAttributes,
+  calculateRarity,
+  computeTraitDNA,
+  MAX_TRAIT_REROLLS,
+  type CharacterGender,
+  type CharacterTraits,
+} from './trait-generator';
+import { buildPromptFromTraits, type BuiltPrompt } from './prompt-templates';
+import { generateImageUrl } from './image-generator';
+import {
+  getLatestMetadataCache,
+  getMetadataCache,
+  getTraitReroll,
+  isTraitDNATaken,
+  saveMetadataCache,
+  updateGenerationJob,
+} from './db-operations';
+import { analyzeFidPFP } from './pfp-analyzer-server';
+import { verifyImageColors, type ColorMatch } from './color-verification';
+import type { PaletteSource } from './palette-core';
+import type { GenerationJob, GenerationJobStatus, NFTMetadataCache } from './supabase';
+
+export interface GenerationInput {
+  fid: number;
+  gender: CharacterGender;
+  artStyle?: string;
+  candidates?: number; // Images to paint from the traits, DEFAULT_CANDIDATES when missing
+}
+
+// A painted image as cached server-side
+export interface GenerationCandidate {
+  imageUrl: string; // Clean provider image, never sent to clients before mint
+  seed: number;
+  colorMatch: number | null; // 0-1 match of hair and outfit colors, null when unverified
+}
+
+// A candidate as shown to the client
+export interface CandidatePreview {
+  seed: number;
+  colorMatch: number | null;
+  previewUrl: string; // Watermarked preview, see /api/preview-image
+}
+
+export interface GenerationResult {
+  previewUrl: string; // Best candidate
+  candidates: CandidatePreview[]; // Best color match first
+  traits: CharacterTraits;
+  dna: string;
+  promptVersion: string;
+  rarity: ReturnType<typeof calculateRarity>;
+  attributes: ReturnType<typeof traitsToAttributes>;
+  paletteSource: PaletteSource;
+  paletteFallbackReason: string | null;
+  rerollSlot: string | null;
+  rerollsLeft: number;
+  cached: boolean; // Image reused from nft_metadata_cache
+  colorMatch: number | null; // Of the best candidate
+}
+
+// Enough of a result to show a returning user their last preview
+export type GenerationPreview = Pick<
+  GenerationResult,
+  'previewUrl' | 'candidates' | 'traits' | 'dna' | 'promptVersion' | 'attributes' | 'rerollSlot' | 'rerollsLeft'
+>;
+
+export interface JobStatus {
+  jobId: string;
+  fid: number;
+  status: GenerationJobStatus;
+  progress: number;
+  stage: string | null;
+  result: GenerationResult | null; // Set once done
+  error: string | null;
+  updatedAt: string;
+}
+
+// A running job not updated for this long was lost with its server instance
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+// Images painted per candidate before settling for the closest color match
+const MAX_COLOR_ATTEMPTS = 3;
+
+// Candidates the user picks from; each is painted from the same traits
+export const DEFAULT_CANDIDATES = 3;
+export const MAX_CANDIDATES = 4;
+
+/**
+ * Whether a queued or running job stopped making progress
+ */
+export function isJobStale(job: GenerationJob): boolean {
+  return (
+    (job.status === 'queued' || job.status === 'running') &&
+    Date.now() - new Date(job.updated_at).getTime() > STALE_JOB_MS
+  );
+}
+
+/**
+ * Fields of a job that are safe to show to the client
+ */
+export function toJobStatus(job: GenerationJob): JobStatus {
+  const stale = isJobStale(job);
+
+  return {
+    jobId: job.id,
+    fid: job.fid,
+    status: stale ? 'failed' : job.status,
+    progress: job.progress,
+    stage: job.stage,
+    result: job.result as GenerationResult | null,
+    error: stale ? 'Generation timed out, please try again' : job.error,
+    updatedAt: job.updated_at,
+  };
+}
+
+/**
+ * Short fingerprint of a clean image URL
+ * Part of the preview URL, so a repainted candidate with the same seed gets a
+ * new URL and previews can be cached as immutable.
+ */
+export function imageVersion(imageUrl: string): string {
+  return keccak256(toBytes(imageUrl)).slice(2, 14);
+}
+
+/**
+ * Client-facing view of a cached candidate
+ */
+function toCandidatePreview(
+  fid: number,
+  dna: string,
+  promptVersion: string,
+  { imageUrl, seed, colorMatch }: GenerationCandidate
+): CandidatePreview {
+  const params = new URLSearchParams({
+    fid: String(fid),
+    dna,
+    version: promptVersion,
+    seed: String(seed),
+    v: imageVersion(imageUrl),
+  });
+  return { seed, colorMatch, previewUrl: `/api/preview-image?${params}` };
+}
+
+/**
+ * Whether a cached image can still be fetched
+ * Provider URLs expire, so a stale link must not be served again.
+ */
+async function isImageAvailable(url: string): Promise<boolean> {
+  if (url.startsWith('data:')) return true;
+
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Candidates of a cached generation
+ * Rows cached before candidates hold their single image in image_url.
+ */
+function cachedCandidates(cached: NFTMetadataCache): GenerationCandidate[] {
+  return (
+    cached.candidates ?? (cached.image_url ? [{ imageUrl: cached.image_url, seed: 0, colorMatch: cached.color_match }] : [])
+  );
+}
+
+/**
+ * Candidates of a cached generation that can still be fetched
+ */
+async function availableCandidates(cached: NFTMetadataCache): Promise<GenerationCandidate[]> {
+  const candidates = cachedCandidates(cached);
+  const available = await Promise.all(candidates.map(({ imageUrl }) => isImageAvailable(imageUrl)));
+  return candidates.filter((_, index) => available[index]);
+}
+
+/**
+ * Whether a cached generation was painted from exactly these traits
+ * Colors are not part of the DNA, so a row rendered from an older PFP differs.
+ */
+function hasSameTraits(cached: NFTMetadataCache, traits: CharacterTraits): boolean {
+  const keys = Object.keys(traits).filter((key) => traits[key] !== undefined);
+  return keys.length === Object.keys(cached.traits).length && keys.every((key) => cached.traits[key] === traits[key]);
+}
+
+/**
+ * Find a cached candidate by its seed
+ * Used to resolve the clean image behind a preview, for watermarking and
+ * for pinning once minted.
+ * @param traits - When given, the candidate must have been painted from exactly these
+ * @returns GenerationCandidate | null - null when it is not (or no longer) cached
+ */
+export async function findCandidate(
+  fid: number,
+  dna: string,
+  promptVersion: string,
+  seed: number,
+  traits?: CharacterTraits
+): Promise<GenerationCandidate | null> {
+  const cached = await getMetadataCache(fid, dna, promptVersion);
+  if (!cached || (traits && !hasSameTraits(cached, traits))) return null;
+
+  return cachedCandidates(cached).find((candidate) => candidate.seed === seed) ?? null;
+}
+
+/**
+ * Look up previously generated candidates for exactly these traits
+ * A row painted from other colors is a miss, as is one with fewer usable
+ * candidates than requested.
+ * @returns GenerationCandidate[] | null - The cached candidates, null on a miss
+ */
+async function findCachedCandidates(
+  fid: number,
+  traits: CharacterTraits,
+  dna: string,
+  promptVersion: string,
+  count: number
+): Promise<GenerationCandidate[] | null> {
+  try {
+    const cached = await getMetadataCache(fid, dna, promptVersion);
+    if (!cached || !hasSameTraits(cached, traits)) return null;
+
+    const candidates = await availableCandidates(cached);
+    return candidates.length >= count ? candidates.slice(0, count) : null;
+  } catch (error) {
+    // A broken cache only costs a fresh image
+    console.error(`Error reading generation cache for FID ${fid}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Latest cached generation of a FID that can still be minted
+ * Previews from before the FID's latest reroll would be rejected at mint, so
+ * they are not restored.
+ * @returns GenerationPreview | null - null when there is nothing to restore
+ */
+export async function getGenerationPreview(fid: number): Promise<GenerationPreview | null> {
+  const cached = await getLatestMetadataCache(fid);
+  if (!cached?.image_url || !cached.trait_dna || !cached.prompt_version) return null;
+
+  const traits = cached.traits as CharacterTraits;
+  const reroll = await getTraitReroll(fid);
+  if (traits.rerollSlot !== reroll?.slot || traits.rerollSeed !== reroll?.seed) return null;
+
+  const { trait_dna: dna, prompt_version: promptVersion } = cached;
+  const candidates = (await availableCandidates(cached)).map((candidate) =>
+    toCandidatePreview(fid, dna, promptVersion, candidate)
+  );
+  if (candidates.length === 0) return null;
+
+  return {
+    previewUrl: candidates[0].previewUrl,
+    candidates,
+    traits,
+    dna,
+    promptVersion,
+    attributes: traitsToAttributes(traits),
+    rerollSlot: reroll?.slot ?? null,
+    rerollsLeft: MAX_TRAIT_REROLLS - (reroll?.count ?? 0),
+  };
+}
+
+/**
+ * Image seed of one painting attempt
+ * Derived from the trait DNA, so regenerating the same traits repaints the
+ * same candidates while each candidate and retry gets its own seed.
+ */
+function candidateSeed(dna: string, candidate: number, attempt: number): number {
+  return parseInt(keccak256(toBytes(`${dna}:${candidate}:${attempt}`)).slice(2, 10), 16);
+}
+
+/**
+ * Paint one candidate, repainting while the image misses the requested colors
+ * Keeps the closest attempt when none passes. An image that cannot be checked
+ * is accepted unverified rather than failing the job.
+ */
+async function paintCandidate(
+  prompt: BuiltPrompt,
+  traits: CharacterTraits,
+  dna: string,
+  candidate: number
+): Promise<GenerationCandidate> {
+  let best: { imageUrl: string; seed: number; colorMatch: ColorMatch } | null = null;
+
+  for (let attempt = 1; attempt <= MAX_COLOR_ATTEMPTS; attempt++) {
+    const seed = candidateSeed(dna, candidate, attempt);
+    const imageUrl = await generateImageUrl(prompt, traits, seed);
+
+    let colorMatch: ColorMatch;
+    try {
+      colorMatch = await verifyImageColors(imageUrl, traits);
+    } catch (error) {
+      console.error('Error verifying generated image colors:', error);
+      return { imageUrl, seed, colorMatch: null };
+    }
+
+    console.log(
+      `Color match ${colorMatch.score} for candidate ${candidate + 1}, attempt ${attempt} (${colorMatch.passed ? 'passed' : 'missed'})`
+    );
+    if (!best || colorMatch.score > best.colorMatch.score) {
+      best = { imageUrl, seed, colorMatch };
+    }
+    if (colorMatch.passed) break;
+  }
+
+  if (!best) {
+    throw new Error('No image generated');
+  }
+  return { imageUrl: best.imageUrl, seed: best.seed, colorMatch: best.colorMatch.score };
+}
+
+/**
+ * Paint all candidates in parallel, reporting progress as each one finishes
+ * Candidates that fail are dropped; the job fails only when all of them do.
+ * @returns GenerationCandidate[] - Best color match first
+ */
+async function paintCandidates(
+  prompt: BuiltPrompt,
+  traits: CharacterTraits,
+  dna: string,
+  count: number,
+  step: (progress: number, stage: string) => Promise<unknown>
+): Promise<GenerationCandidate[]> {
+  const label = count === 1 ? 'your character' : `${count} versions of your character`;
+  await step(40, `Painting ${label}`);
+
+  let painted = 0;
+  const settled = await Promise.allSettled(
+    Array.from({ length: count }, async (_, candidate) => {
+      const result = await paintCandidate(prompt, traits, dna, candidate);
+      painted++;
+      await step(40 + Math.round((50 * painted) / count), `Painted ${painted} of ${count}`);
+      return result;
+    })
+  );
+
+  const candidates = settled.flatMap((outcome) => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+  if (candidates.length === 0) {
+    const failure = settled.find((outcome) => outcome.status === 'rejected');
+    throw failure?.reason instanceof Error ? failure.reason : new Error('No image generated');
+  }
+
+  return candidates.sort((a, b) => (b.colorMatch ?? -1) - (a.colorMatch ?? -1));
+}
+
+/**
+ * Run a generation job to completion
+ * Never throws: failures are recorded on the job instead.
+ */
+export async function runGenerationJob(
+  jobId: string,
+  { fid, gender, artStyle, candidates: count = DEFAULT_CANDIDATES }: GenerationInput
+): Promise<void> {
+  const step = (progress: number, stage: string) =>
+    updateGenerationJob(jobId, { status: 'running', progress, stage });
+
+  try {
+    // Colors come from the FID's own PFP, never from the client
+    await step(10, 'Analyzing your profile picture');
+    const { palette, source: paletteSource, reason: paletteFallbackReason } = await analyzeFidPFP(fid);
+
+    // Earlier rerolls of this FID always apply, so reloading cannot undo them
+    await step(25, 'Rolling traits');
+    const reroll = await getTraitReroll(fid);
+
+    // Generate traits, rerolling away from trait DNA already minted by others
+    const traits = await generateUniqueTraits(
+      fid,
+      gender,
+      palette,
+      (dna) => isTraitDNATaken(dna, fid),
+      { artStyle, reroll: reroll ? { slot: reroll.slot, seed: reroll.seed } : undefined }
+    );
+
+    const prompt = buildPromptFromTraits(traits);
+    const dna = computeTraitDNA(traits);
+
+    // Same FID, traits and prompt version render the same character, so reuse it
+    let candidates = await findCachedCandidates(fid, traits, dna, prompt.version, count);
+    const cached = candidates !== null;
+
+    if (candidates) {
+      console.log(`Reusing ${candidates.length} cached candidates for FID ${fid} (job ${jobId})`);
+    } else {
+      console.log(`Generating ${count} candidates for FID ${fid} (job ${jobId})...`);
+      candidates = await paintCandidates(prompt, traits, dna, count, step);
+
+      try {
+        await saveMetadataCache({
+          fid,
+          gender: traits.gender,
+          dominant_color: palette.primary,
+          traits: traits as Record<string, string | number>,
+          image_url: candidates[0].imageUrl,
+          trait_dna: dna,
+          prompt_version: prompt.version,
+          color_match: candidates[0].colorMatch,
+          candidates,
+        });
+      } catch (error) {
+        console.error(`Error caching generation for FID ${fid}:`, error);
+      }
+    }
+
+    const previews = candidates.map((candidate) => toCandidatePreview(fid, dna, prompt.version, candidate));
+    const result: GenerationResult = {
+      previewUrl: previews[0].previewUrl,
+      candidates: previews,
+      traits,
+      dna,
+      promptVersion: prompt.version,
+      rarity: calculateRarity(traits),
+      attributes: traitsToAttributes(traits),
+      paletteSource,
+      paletteFallbackReason: paletteFallbackReason ?? null,
+      rerollSlot: reroll?.slot ?? null,
+      rerollsLeft: MAX_TRAIT_REROLLS - (reroll?.count ?? 0),
+      cached,
+      colorMatch: candidates[0].colorMatch,
+    };
+
+    await updateGenerationJob(jobId, { status: 'done', progress: 100, stage: 'Done', result: { ...result } });
+  } catch (error) {
+    console.error(`Error running generation job ${jobId}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    try {
+      await updateGenerationJob(jobId, { status: 'failed', stage: 'Failed', error: message });
+    } catch (updateError) {
+      console.error(`Error recording failure of generation job ${jobId}:`, updateError);
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * NFT Image Derivative Encoding
+ * Encodes the master and resized copies named in image-derivatives.ts with sharp
+ */
+
+import sharp from 'sharp';
+import {
+  DERIVATIVE_FORMATS,
+  DERIVATIVE_MIME_TYPES,
+  DERIVATIVE_SIZES,
+  derivativeFilename,
+  type DerivativeFormat,
+  type DerivativeSize,
+} from './image-derivatives';
+
+export interface EncodedDerivative {
+  path: string; // File name inside the image directory
+  data: Buffer;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Encode one derivative; PNG stays lossless, AVIF and WebP are lossy
+ */
+function encode(image: sharp.Sharp, format: DerivativeFormat): sharp.Sharp {
+  switch (format) {
+    case 'avif':
+      return image.avif({ quality: 60 });
+    case 'webp':
+      return image.webp({ quality: 85 });
+    case 'png':
+      return image.png({ compressionLevel: 9 });
+  }
+}
+
+/**
+ * Encode every derivative of a generated image
+ * Resized copies never upscale, so a small original yields copies at its own size.
+ * Files are encoded one at a time to keep memory flat.
+ */
+export async function encodeImageDerivatives(image: Buffer): Promise<EncodedDerivative[]> {
+  const sizes: DerivativeSize[] = [...DERIVATIVE_SIZES, 'master'];
+  const derivatives: EncodedDerivative[] = [];
+
+  for (const size of sizes) {
+    for (const format of DERIVATIVE_FORMATS) {
+      let pipeline = sharp(image).rotate();
+      if (size !== 'master') {
+        pipeline = pipeline.resize(size, size, { fit: 'inside', withoutEnlargement: true });
+      }
+
+      const { data, info } = await encode(pipeline, format).toBuffer({ resolveWithObject: true });
+      derivatives.push({
+        path: derivativeFilename(size, format),
+        data,
+        mimeType: DERIVATIVE_MIME_TYPES[format],
+        width: info.width,
+        height: info.height,
+      });
+    }
+  }
+
+  return derivatives;
+}
@@ -0,0 +1,68 @@
+/**
+ * NFT Image Derivatives
+ * Every minted image is pinned as an IPFS directory holding an
+ * original-resolution master plus resized copies, each as AVIF, WebP and PNG.
+ * These helpers name the files and build their URLs; they have no server
+ * dependencies so pages and the OG image route can use them.
+ * Encoding lives in image-derivatives-server.ts.
+ */
+
+import { pinataGatewayUrl } from '@/pinata-media-api';
+
+// Longest side of each resized copy; 1200 is the full-size display image
+export const DERIVATIVE_SIZES = [256, 512, 1200] as const;
+
+export const DERIVATIVE_FORMATS = ['avif', 'webp', 'png'] as const;
+
+export type DerivativeSize = (typeof DERIVATIVE_SIZES)[number] | 'master';
+
+export type DerivativeFormat = (typeof DERIVATIVE_FORMATS)[number];
+
+// URLs of every derivative, by size then format
+export type ImageDerivativeUrls = Record<DerivativeSize, Record<DerivativeFormat, string>>;
+
+export const DERIVATIVE_MIME_TYPES: Record<DerivativeFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  png: 'image/png',
+};
+
+/**
+ * File name of a derivative inside the image directory (e.g. 512.webp)
+ */
+export function derivativeFilename(size: DerivativeSize, format: DerivativeFormat): string {
+  return `${size}.${format}`;
+}
+
+/**
+ * ipfs:// URI of a derivative
+ * @param directoryUri - ipfs:// URI of the image directory
+ */
+export function derivativeIpfsUri(directoryUri: string, size: DerivativeSize, format: DerivativeFormat): string {
+  return `${directoryUri.replace(/\/$/, '')}/${derivativeFilename(size, format)}`;
+}
+
+/**
+ * Gateway URL of a derivative, loadable by browsers and OG renderers
+ * @param directoryUri - ipfs:// URI of the image directory
+ */
+export function derivativeGatewayUrl(directoryUri: string, size: DerivativeSize, format: DerivativeFormat): string {
+  return pinataGatewayUrl(derivativeIpfsUri(directoryUri, size, format).replace(/^ipfs:\/\//, ''));
+}
+
+/**
+ * Map every derivative of an image directory to a URL
+ */
+export function mapDerivatives(
+  directoryUri: string,
+  toUrl: (directoryUri: string, size: DerivativeSize, format: DerivativeFormat) => string
+): ImageDerivativeUrls {
+  const sizes: DerivativeSize[] = [...DERIVATIVE_SIZES, 'master'];
+
+  return Object.fromEntries(
+    sizes.map((size) => [
+      size,
+      Object.fromEntries(DERIVATIVE_FORMATS.map((format) => [format, toUrl(directoryUri, size, format)])),
+    ])
+  ) as ImageDerivativeUrls;
+}
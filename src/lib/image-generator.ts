@@ -1,9 +1,12 @@
 /**
  * AI Image Generation & Compression for Winter Cheer NFTs
- * Uses Flux for generation and server-side API for compression to 1200px
+ * Uses the configured image provider (see image-providers) for generation and
+ * server-side API for compression to 1200px
  */
 
-import { fluxproSubmit, fluxproPollStatus, fluxproFetchImages } from '@/fluxpro-api';
+import { getActiveImageProvider } from '@/lib/image-providers';
+import type { BuiltPrompt } from '@/lib/prompt-templates';
+import type { CharacterTraits } from '@/lib/trait-generator';
 
 export interface GeneratedImage {
   url: string;
@@ -16,30 +19,7 @@ export interface GeneratedImage {
  * Generate and compress NFT character image
  */
 export async function generateNFTImage(prompt: string): Promise<GeneratedImage> {
-  console.log('Generating NFT image with Flux...');
-  
-  // Submit generation request
-  const requestId = await fluxproSubmit({
-    prompt,
-    aspect_ratio: '1:1',
-    num_images: 1,
-    output_format: 'png',
-    safety_tolerance: '3',
-  });
-  
-  console.log('Flux request ID:', requestId);
-  
-  // Poll for completion
-  await fluxproPollStatus(requestId);
-  
-  // Fetch result
-  const images = await fluxproFetchImages(requestId);
-  
-  if (!images || images.length === 0) {
-    throw new Error('No images generated');
-  }
-  
-  const imageUrl = images[0].url;
+  const imageUrl = await generateImageUrl({ version: 'legacy', prompt });
   console.log('Generated image URL:', imageUrl);
   
   // Compress image to 1200px max dimension using server-side API
@@ -53,6 +33,18 @@ export async function generateNFTImage(prompt: string): Promise<GeneratedImage>
   };
 }
 
+/**
+ * Generate one image with the configured provider and return its URL
+ * Used by generation jobs, which cache the URL until the image is pinned
+ * @param traits - Traits the prompt was built from (used by the mock provider)
+ * @param seed - Picks one of the images the prompt can produce
+ */
+export async function generateImageUrl(prompt: BuiltPrompt, traits?: CharacterTraits, seed?: number): Promise<string> {
+  const provider = getActiveImageProvider();
+  console.log(`Generating image with ${provider.id} (prompt ${prompt.version}${seed !== undefined ? `, seed ${seed}` : ''})...`);
+  return provider.generate({ prompt, traits, seed });
+}
+
 /**
  * Compress image to 1200px max dimension via server-side API
  */
@@ -0,0 +1,99 @@
+/**
+ * Flux Pro Image Provider
+ * Generates images with Flux Pro through the fal.ai queue API (FAL_KEY)
+ */
+
+import type { ImageProvider, ImageRequest } from './types';
+
+const FLUX_QUEUE_URL = 'https://queue.fal.run/fal-ai/flux-pro';
+
+const POLL_INTERVAL_MS = 2000;
+
+const POLL_TIMEOUT_MS = 3 * 60 * 1000;
+
+interface FluxQueueResponse {
+  request_id: string;
+  status_url: string;
+  response_url: string;
+}
+
+interface FluxResult {
+  images?: Array<{ url: string }>;
+}
+
+function authHeaders(): Record<string, string> {
+  const apiKey = process.env.FAL_KEY;
+  if (!apiKey) {
+    throw new Error('FAL_KEY not set, cannot generate images with Flux');
+  }
+  return { Authorization: `Key ${apiKey}`, 'Content-Type': 'application/json' };
+}
+
+/**
+ * Submit a generation request to the queue
+ */
+async function submit({ prompt, seed }: ImageRequest): Promise<FluxQueueResponse> {
+  const response = await fetch(FLUX_QUEUE_URL, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: JSON.stringify({
+      prompt: prompt.prompt,
+      ...(prompt.negativePrompt ? { negative_prompt: prompt.negativePrompt } : {}),
+      ...(seed !== undefined ? { seed } : {}),
+      aspect_ratio: '1:1',
+      num_images: 1,
+      output_format: 'png',
+      safety_tolerance: '3',
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Flux submit failed: ${response.status} ${await response.text()}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Wait until a queued request has completed
+ */
+async function pollStatus({ request_id, status_url }: FluxQueueResponse): Promise<void> {
+  const deadline = Date.now() + POLL_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const response = await fetch(status_url, { headers: authHeaders() });
+    if (!response.ok) {
+      throw new Error(`Flux status check failed: ${response.status} ${response.statusText}`);
+    }
+
+    const { status }: { status: string } = await response.json();
+    if (status === 'COMPLETED') return;
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`Flux request ${request_id} timed out`);
+}
+
+export const fluxImageProvider: ImageProvider = {
+  id: 'flux',
+
+  async generate(request) {
+    const queued = await submit(request);
+
+    console.log(`Polling for Flux Pro completion (request ${queued.request_id}, prompt ${request.prompt.version})...`);
+    await pollStatus(queued);
+
+    const response = await fetch(queued.response_url, { headers: authHeaders() });
+    if (!response.ok) {
+      throw new Error(`Flux result fetch failed: ${response.status} ${response.statusText}`);
+    }
+
+    const { images }: FluxResult = await response.json();
+    if (!images || images.length === 0) {
+      throw new Error('No images generated');
+    }
+
+    return images[0].url;
+  },
+};
@@ -0,0 +1,36 @@
+/**
+ * Image Provider Registry
+ * Add a provider by implementing ImageProvider and listing it in PROVIDERS.
+ * The provider is selected with IMAGE_PROVIDER (defaults to flux).
+ */
+
+import { fluxImageProvider } from './flux';
+import { mockImageProvider } from './mock';
+import type { ImageProvider } from './types';
+
+export type { ImageProvider, ImageRequest } from './types';
+
+export const DEFAULT_IMAGE_PROVIDER_ID = fluxImageProvider.id;
+
+const PROVIDERS: Record<string, ImageProvider> = {
+  [fluxImageProvider.id]: fluxImageProvider,
+  [mockImageProvider.id]: mockImageProvider,
+};
+
+/**
+ * Get an image provider by id
+ */
+export function getImageProvider(id: string = DEFAULT_IMAGE_PROVIDER_ID): ImageProvider {
+  const provider = PROVIDERS[id];
+  if (!provider) {
+    throw new Error(`Unknown image provider: ${id}`);
+  }
+  return provider;
+}
+
+/**
+ * Get the image provider configured for this deployment
+ */
+export function getActiveImageProvider(): ImageProvider {
+  return getImageProvider(process.env.IMAGE_PROVIDER || DEFAULT_IMAGE_PROVIDER_ID);
+}
@@ -0,0 +1,83 @@
+/**
+ * Mock Image Provider
+ * Draws placeholder art from the traits locally, with no network access, so
+ * the mint flow can run in development and tests. The same request always
+ * produces the same image.
+ */
+
+import { keccak256, toBytes } from 'viem';
+import { getTheme } from '../themes';
+import type { ImageProvider } from './types';
+
+const SIZE = 1024;
+
+const SKIN_TONE_COLORS: Record<string, string> = {
+  Porcelain: '#F9E4D8',
+  Fair: '#F3D3BD',
+  Light: '#E8BC9A',
+  Medium: '#C98E63',
+  Tan: '#A86F45',
+  Deep: '#6B4329',
+};
+
+const DEFAULT_COLOR = '#DC2626';
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+export const mockImageProvider: ImageProvider = {
+  id: 'mock',
+
+  async generate({ prompt, traits, seed = 0 }) {
+    const hair = traits?.hairColor ?? DEFAULT_COLOR;
+    const outfit = traits?.outfitColor ?? hair;
+    const eyes = traits?.eyeColor ?? '#1F2937';
+    const accessory = traits?.accessoryColor ?? outfit;
+    const skin = SKIN_TONE_COLORS[traits?.skinTone ?? ''] ?? SKIN_TONE_COLORS.Light;
+
+    const theme = traits ? getTheme(traits.theme) : null;
+    const backgroundValue = theme ? traits?.[theme.colorMapping.backgroundSlot] : undefined;
+    const background =
+      (typeof backgroundValue === 'string' && theme?.colorMapping.backgroundColors[backgroundValue]) || '#1B2340';
+
+    // Snowflake positions come from the prompt and seed, so each prompt version
+    // and each candidate looks different
+    const hash = keccak256(toBytes(`${prompt.prompt}:${seed}`)).slice(2);
+    const snowflakes = Array.from({ length: 15 }, (_, index) => {
+      const x = (parseInt(hash.slice(index * 4, index * 4 + 2), 16) / 255) * SIZE;
+      const y = (parseInt(hash.slice(index * 4 + 2, index * 4 + 4), 16) / 255) * SIZE;
+      return `<circle cx="${x.toFixed(1)}" cy="${y.toFixed(1)}" r="${6 + (index % 4) * 3}" fill="#FFFFFF" opacity="0.7"/>`;
+    });
+
+    // The next hash byte shifts the gaze, so candidates differ in the face too
+    const gaze = (parseInt(hash.slice(60, 62), 16) / 255 - 0.5) * 40;
+
+    const labels = theme
+      ? theme.slots.map(({ key, label }) => `${label}: ${String(traits?.[key] ?? '-')}`)
+      : [prompt.prompt.slice(0, 60)];
+
+    const svg = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${SIZE}" height="${SIZE}" viewBox="0 0 ${SIZE} ${SIZE}">`,
+      `<rect width="${SIZE}" height="${SIZE}" fill="${background}"/>`,
+      ...snowflakes,
+      // Body, head, hair, eyes and accessory
+      `<rect x="332" y="500" width="360" height="270" rx="60" fill="${outfit}"/>`,
+      `<circle cx="512" cy="340" r="200" fill="${skin}"/>`,
+      `<path d="M312 330 Q312 120 512 120 Q712 120 712 330 Q640 220 512 230 Q384 220 312 330 Z" fill="${hair}"/>`,
+      `<circle cx="${(440 + gaze).toFixed(1)}" cy="370" r="34" fill="${eyes}"/>`,
+      `<circle cx="${(584 + gaze).toFixed(1)}" cy="370" r="34" fill="${eyes}"/>`,
+      `<circle cx="740" cy="620" r="56" fill="${accessory}" stroke="#FFFFFF" stroke-width="8"/>`,
+      `<rect x="0" y="${SIZE - 48 - labels.length * 26}" width="${SIZE}" height="${48 + labels.length * 26}" fill="#000000" opacity="0.45"/>`,
+      ...labels.map(
+        (label, index) =>
+          `<text x="24" y="${SIZE - 24 - (labels.length - 1 - index) * 26}" font-family="sans-serif" font-size="20" fill="#FFFFFF">${escapeXml(label)}</text>`
+      ),
+      '<rect x="12" y="12" width="420" height="40" rx="8" fill="#000000" opacity="0.45"/>',
+      `<text x="24" y="40" font-family="sans-serif" font-size="22" fill="#FFFFFF">MOCK · prompt ${escapeXml(prompt.version)} · seed ${seed}</text>`,
+      '</svg>',
+    ].join('');
+
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * Image Provider Types
+ * A provider turns a built prompt into a hosted image URL
+ */
+
+import type { BuiltPrompt } from '../prompt-templates';
+import type { CharacterTraits } from '../trait-generator';
+
+export interface ImageRequest {
+  prompt: BuiltPrompt;
+  traits?: CharacterTraits; // Lets providers that do not read prompts draw the character
+  seed?: number; // Varies the image without changing the prompt; random when missing
+}
+
+export interface ImageProvider {
+  id: string; // Selected with IMAGE_PROVIDER
+  /**
+   * Generate one square image
+   * @returns string - URL the image can be fetched from (http(s) or data URL)
+   */
+  generate: (request: ImageRequest) => Promise<string>;
+}
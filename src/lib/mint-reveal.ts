@@ -0,0 +1,252 @@
+/**
+ * Mint Previews and Reveals
+ * Tokens are minted against a watermarked preview and pre-reveal metadata.
+ * Only once record-mint has confirmed the mint on-chain is the clean image
+ * pinned, with its derivatives, and the token pointed at its final metadata.
+ */
+
+import {
+  pinataUploadDirectory,
+  pinataUploadImageWithMetadata,
+  pinataUploadMetadataDocument,
+  type PinataMetadataInput,
+} from '@/pinata-media-api';
+import { getMintPreview, revealMintedNFT } from './db-operations';
+import { fetchGeneratedImage } from './fetch-image';
+import { findCandidate } from './generation-jobs';
+import {
+  derivativeFilename,
+  derivativeGatewayUrl,
+  derivativeIpfsUri,
+  mapDerivatives,
+} from './image-derivatives';
+import { encodeImageDerivatives } from './image-derivatives-server';
+import { updateTokenUri } from './nft-contract-server';
+import type { MintedNFT } from './supabase';
+import { getTheme } from './themes';
+import { traitsToAttributes, type CharacterTraits } from './trait-generator';
+import { PREVIEW_MIME_TYPE } from './watermark';
+
+export interface PinnedPreview {
+  imageIpfsUri: string;
+  imageGatewayUrl: string;
+  metadataIpfsUri: string; // What the token is minted with
+  metadataGatewayUrl: string;
+}
+
+// Reveal state of a mint as shown to the client
+export interface RevealStatus {
+  revealed: boolean;
+  imageGatewayUrl: string | null;
+  imageDirectoryUri: string | null;
+  metadataIpfsUri: string | null;
+  metadataGatewayUrl: string | null;
+  tokenUriUpdated: boolean; // The token points at the clean metadata on-chain
+}
+
+interface RevealedAsset {
+  imageIpfsUri: string;
+  imageGatewayUrl: string;
+  imageDirectoryUri: string;
+  metadataIpfsUri: string;
+  metadataGatewayUrl: string;
+}
+
+/**
+ * Reveal state of a minted NFT; mints from before previews count as revealed
+ */
+export function toRevealStatus(nft: MintedNFT): RevealStatus {
+  return {
+    revealed: Boolean(nft.image_ipfs_uri),
+    imageGatewayUrl: nft.image_gateway_url,
+    imageDirectoryUri: nft.image_directory_uri,
+    metadataIpfsUri: nft.metadata_ipfs_uri,
+    metadataGatewayUrl: nft.metadata_gateway_url,
+    tokenUriUpdated: !nft.preview_metadata_uri || Boolean(nft.reveal_tx_hash),
+  };
+}
+
+/**
+ * Dominant color of the rolled background, shown behind the image by marketplaces
+ */
+function backgroundColor(traits: CharacterTraits): string | undefined {
+  const { backgroundSlot, backgroundColors } = getTheme(traits.theme).colorMapping;
+  const background = traits[backgroundSlot];
+  return typeof background === 'string' ? backgroundColors[background] : undefined;
+}
+
+/**
+ * Metadata fields shared by the preview and the revealed token
+ */
+function baseMetadata(
+  fid: number,
+  traits: CharacterTraits,
+  mintedAt: Date,
+  animationUrl?: string
+): PinataMetadataInput {
+  return {
+    name: `Winter Cheer #${fid}`,
+    description: 'A unique festive character celebrating the holiday season! Each Winter Cheer NFT is a one-of-a-kind anime-style character with personalized traits derived from your Farcaster profile.',
+    // Built here so edition and mint date are part of the pinned document
+    attributes: traitsToAttributes(traits, { edition: fid, mintedAt }),
+    external_url: 'https://winter-cheer.ohara.ai',
+    background_color: backgroundColor(traits),
+    animation_url: animationUrl,
+  };
+}
+
+/**
+ * Pin a watermarked preview and the pre-reveal metadata a token is minted with
+ * @param preview - Rendered by renderWatermarkedPreview
+ */
+export async function pinMintPreview(
+  preview: Buffer,
+  fid: number,
+  traits: CharacterTraits,
+  animationUrl?: string
+): Promise<PinnedPreview> {
+  const metadata = baseMetadata(fid, traits, new Date(), animationUrl);
+
+  const { image, metadata: document } = await pinataUploadImageWithMetadata({
+    image: preview,
+    filename: `winter-cheer-${fid}-preview.webp`,
+    mimeType: PREVIEW_MIME_TYPE,
+    metadata: {
+      ...metadata,
+      description: `${metadata.description} The full-resolution artwork is revealed once the mint is confirmed.`,
+      properties: { revealed: false },
+    },
+    network: 'public',
+  });
+
+  return {
+    imageIpfsUri: image.pin.ipfsUri,
+    imageGatewayUrl: image.pin.gatewayUrl,
+    metadataIpfsUri: document.pin.ipfsUri,
+    metadataGatewayUrl: document.pin.gatewayUrl,
+  };
+}
+
+/**
+ * Pin the clean image as a directory of derivatives (see image-derivatives.ts)
+ * with the final metadata
+ */
+async function pinRevealedAsset(
+  image: Buffer,
+  fid: number,
+  traits: CharacterTraits,
+  mintedAt: Date,
+  animationUrl?: string
+): Promise<RevealedAsset> {
+  // Encode the master and its resized copies in every format
+  const files = await encodeImageDerivatives(image);
+  const master = files.find((file) => file.path === derivativeFilename('master', 'png'));
+  console.log(
+    `Encoded ${files.length} derivatives (master ${master?.width}x${master?.height}), ` +
+      `${files.reduce((sum, file) => sum + file.data.length, 0)} bytes in total`
+  );
+
+  // Pin them together as one directory
+  console.log(`Uploading image directory of FID ${fid} to IPFS via Pinata...`);
+  const directory = await pinataUploadDirectory({
+    name: `winter-cheer-${fid}`,
+    files: files.map(({ path, data, mimeType }) => ({ path, source: data, mimeType })),
+  });
+  const directoryUri = directory.pin.ipfsUri;
+
+  // The metadata's image is the lossless master; derivatives are listed for galleries
+  const masterPin = {
+    ...directory.pin,
+    ipfsUri: derivativeIpfsUri(directoryUri, 'master', 'png'),
+    gatewayUrl: derivativeGatewayUrl(directoryUri, 'master', 'png'),
+  };
+  const metadata = await pinataUploadMetadataDocument(
+    {
+      metadata: {
+        ...baseMetadata(fid, traits, mintedAt, animationUrl),
+        properties: {
+          revealed: true,
+          image_directory: directoryUri,
+          image_derivatives: mapDerivatives(directoryUri, derivativeIpfsUri),
+        },
+      },
+      network: 'public',
+    },
+    masterPin
+  );
+
+  return {
+    imageIpfsUri: masterPin.ipfsUri,
+    imageGatewayUrl: masterPin.gatewayUrl,
+    imageDirectoryUri: directoryUri,
+    metadataIpfsUri: metadata.pin.ipfsUri,
+    metadataGatewayUrl: metadata.pin.gatewayUrl,
+  };
+}
+
+/**
+ * Point a revealed token at its final metadata
+ * Without an owner key the token keeps its preview metadata until a
+ * batchUpdateTokenURI run; failures are logged and retried with the reveal.
+ */
+async function updateRevealedTokenUri(nft: MintedNFT): Promise<MintedNFT> {
+  if (nft.token_id === null || !nft.metadata_ipfs_uri) return nft;
+
+  try {
+    const hash = await updateTokenUri(nft.token_id, nft.metadata_ipfs_uri);
+    if (!hash) return nft;
+
+    await revealMintedNFT(nft.fid, { reveal_tx_hash: hash });
+    return { ...nft, reveal_tx_hash: hash };
+  } catch (error) {
+    console.error(`Error updating token URI of FID ${nft.fid}:`, error);
+    return nft;
+  }
+}
+
+/**
+ * Reveal a confirmed mint: pin its clean image and final metadata, then point
+ * the token at them. Safe to call again after a partial failure.
+ * @returns MintedNFT - The row with its reveal recorded
+ * @throws When the clean image cannot be found, fetched or pinned
+ */
+export async function revealMint(nft: MintedNFT): Promise<MintedNFT> {
+  // Mints from before previews were pinned clean from the start
+  if (!nft.preview_metadata_uri) return nft;
+
+  if (nft.revealed_at) {
+    return nft.reveal_tx_hash ? nft : updateRevealedTokenUri(nft);
+  }
+
+  if (!nft.trait_dna || !nft.prompt_version || nft.image_seed === null) {
+    throw new Error(`Mint of FID ${nft.fid} does not record which image it minted`);
+  }
+
+  const traits = nft.traits as CharacterTraits;
+  const candidate = await findCandidate(nft.fid, nft.trait_dna, nft.prompt_version, nft.image_seed, traits);
+  if (!candidate) {
+    throw new Error(`Generated image of FID ${nft.fid} is no longer cached`);
+  }
+
+  const preview = await getMintPreview(nft.preview_metadata_uri);
+  const asset = await pinRevealedAsset(
+    await fetchGeneratedImage(candidate.imageUrl),
+    nft.fid,
+    traits,
+    new Date(nft.minted_at),
+    preview?.animation_url ?? undefined
+  );
+
+  const reveal = {
+    image_ipfs_uri: asset.imageIpfsUri,
+    image_gateway_url: asset.imageGatewayUrl,
+    metadata_ipfs_uri: asset.metadataIpfsUri,
+    metadata_gateway_url: asset.metadataGatewayUrl,
+    image_directory_uri: asset.imageDirectoryUri,
+    revealed_at: new Date().toISOString(),
+  };
+  await revealMintedNFT(nft.fid, reveal);
+  console.log(`Revealed mint of FID ${nft.fid}: ${asset.metadataIpfsUri}`);
+
+  return updateRevealedTokenUri({ ...nft, ...reveal });
+}
@@ -0,0 +1,73 @@
+/**
+ * Heuristic Image Classifier
+ * Local pixel checks that need no external service. It only flags, leaving
+ * the decision to a reviewer: the signals are too coarse to block on.
+ */
+
+import sharp from 'sharp';
+import type { ImageClassifier } from './types';
+
+// Images are screened at this size; enough for coverage statistics
+const SAMPLE_SIZE = 128;
+
+// Share of skin-toned pixels above which a character may be underdressed
+const MAX_SKIN_SHARE = 0.5;
+
+// Luma standard deviation below which the image is effectively blank
+const MIN_LUMA_DEVIATION = 6;
+
+/**
+ * Skin tone test in YCbCr (Chai & Ngan), independent of lightness
+ */
+function isSkinTone(r: number, g: number, b: number): boolean {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+}
+
+export const heuristicImageClassifier: ImageClassifier = {
+  id: 'heuristic',
+
+  async classify({ image }) {
+    const { data, info } = await sharp(image)
+      .resize(SAMPLE_SIZE, SAMPLE_SIZE, { fit: 'fill' })
+      .flatten({ background: '#ffffff' })
+      .toColourspace('srgb')
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const pixels = info.width * info.height;
+    let skin = 0;
+    let lumaSum = 0;
+    let lumaSquares = 0;
+
+    for (let offset = 0; offset < data.length; offset += info.channels) {
+      const r = data[offset];
+      const g = data[offset + 1];
+      const b = data[offset + 2];
+
+      if (isSkinTone(r, g, b)) skin++;
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+      lumaSum += luma;
+      lumaSquares += luma * luma;
+    }
+
+    const skinShare = skin / pixels;
+    const lumaMean = lumaSum / pixels;
+    const lumaDeviation = Math.sqrt(Math.max(0, lumaSquares / pixels - lumaMean * lumaMean));
+
+    const reasons: string[] = [];
+    if (skinShare > MAX_SKIN_SHARE) {
+      reasons.push(`${Math.round(skinShare * 100)}% of the image is skin-toned`);
+    }
+    if (lumaDeviation < MIN_LUMA_DEVIATION) {
+      reasons.push('Image is nearly blank');
+    }
+
+    return {
+      verdict: reasons.length > 0 ? 'flag' : 'allow',
+      reasons,
+      scores: { skinShare, lumaDeviation },
+    };
+  },
+};
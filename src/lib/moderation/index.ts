@@ -0,0 +1,51 @@
+/**
+ * Image Moderation Registry
+ * Add a classifier by implementing ImageClassifier and listing it in
+ * CLASSIFIERS. The classifier is selected with MODERATION_CLASSIFIER
+ * (defaults to heuristic).
+ */
+
+import { heuristicImageClassifier } from './heuristic';
+import type { ImageClassifier, ModerationRequest, ModerationResult } from './types';
+
+export type { ImageClassifier, ModerationRequest, ModerationResult, ModerationVerdict } from './types';
+
+export const DEFAULT_CLASSIFIER_ID = heuristicImageClassifier.id;
+
+const CLASSIFIERS: Record<string, ImageClassifier> = {
+  [heuristicImageClassifier.id]: heuristicImageClassifier,
+};
+
+/**
+ * Get an image classifier by id
+ */
+export function getImageClassifier(id: string = DEFAULT_CLASSIFIER_ID): ImageClassifier {
+  const classifier = CLASSIFIERS[id];
+  if (!classifier) {
+    throw new Error(`Unknown image classifier: ${id}`);
+  }
+  return classifier;
+}
+
+/**
+ * Get the image classifier configured for this deployment
+ */
+export function getActiveImageClassifier(): ImageClassifier {
+  return getImageClassifier(process.env.MODERATION_CLASSIFIER || DEFAULT_CLASSIFIER_ID);
+}
+
+/**
+ * Screen an image with the active classifier
+ * A classifier failure holds the image for review instead of letting it through.
+ */
+export async function moderateImage(request: ModerationRequest): Promise<ModerationResult & { classifier: string }> {
+  const classifier = getActiveImageClassifier();
+
+  try {
+    return { ...(await classifier.classify(request)), classifier: classifier.id };
+  } catch (error) {
+    console.error(`Error classifying image with ${classifier.id}:`, error);
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return { verdict: 'flag', reasons: [`Classifier failed: ${message}`], classifier: classifier.id };
+  }
+}
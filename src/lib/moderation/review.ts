@@ -0,0 +1,78 @@
+/**
+ * Moderation Review Gate
+ * Decides whether a generated image may be pinned: earlier admin decisions
+ * win, otherwise the active classifier screens it and anything it does not
+ * allow is recorded in moderation_reviews
+ */
+
+import { createHash } from 'crypto';
+import {
+  createModerationReview,
+  deleteMetadataCache,
+  getModerationReview,
+} from '../db-operations';
+import type { ModerationReview } from '../supabase';
+import { computeTraitDNA, type CharacterTraits } from '../trait-generator';
+import { moderateImage } from './index';
+
+export type PinDecision =
+  | { status: 'allowed' }
+  | { status: 'held'; review: ModerationReview }
+  | { status: 'rejected'; review: ModerationReview };
+
+/**
+ * SHA-256 of an image, identifying it across uploads
+ */
+export function hashImage(image: Buffer): string {
+  return createHash('sha256').update(image).digest('hex');
+}
+
+/**
+ * Forget the cached generation of a rejected image so the FID can paint a new one
+ */
+export async function evictRejectedImage(review: ModerationReview): Promise<void> {
+  try {
+    await deleteMetadataCache(review.fid, computeTraitDNA(review.traits as CharacterTraits));
+  } catch (error) {
+    console.error(`Error evicting rejected image of FID ${review.fid}:`, error);
+  }
+}
+
+/**
+ * Screen a generated image before it is pinned
+ * @param image - The image as generated, before compression
+ * @param imageUrl - Where the image was generated, kept for reviewers
+ */
+export async function screenImageForPinning(
+  image: Buffer,
+  imageUrl: string,
+  fid: number,
+  traits: CharacterTraits
+): Promise<PinDecision> {
+  const imageHash = hashImage(image);
+
+  const existing = await getModerationReview(fid, imageHash);
+  if (existing?.status === 'approved') return { status: 'allowed' };
+  if (existing?.status === 'pending') return { status: 'held', review: existing };
+  if (existing?.status === 'rejected') return { status: 'rejected', review: existing };
+
+  const { verdict, reasons, classifier } = await moderateImage({ image, fid, traits });
+  if (verdict === 'allow') return { status: 'allowed' };
+
+  console.warn(`Image of FID ${fid} ${verdict === 'block' ? 'blocked' : 'flagged'} by ${classifier}: ${reasons.join('; ')}`);
+  const review = await createModerationReview({
+    fid,
+    image_url: imageUrl,
+    image_hash: imageHash,
+    traits: traits as Record<string, string | number>,
+    classifier,
+    verdict,
+    reasons,
+  });
+
+  if (verdict === 'block') {
+    await evictRejectedImage(review);
+    return { status: 'rejected', review };
+  }
+  return { status: 'held', review };
+}
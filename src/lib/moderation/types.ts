@@ -0,0 +1,30 @@
+/**
+ * Image Moderation Types
+ * A classifier screens a generated image before it is pinned to IPFS
+ */
+
+import type { CharacterTraits } from '../trait-generator';
+
+// allow: pin it; flag: hold for admin review; block: never pin
+export type ModerationVerdict = 'allow' | 'flag' | 'block';
+
+export interface ModerationRequest {
+  image: Buffer; // Encoded image as it would be pinned
+  fid: number;
+  traits?: CharacterTraits;
+}
+
+export interface ModerationResult {
+  verdict: ModerationVerdict;
+  reasons: string[]; // Why the image was flagged or blocked, shown to reviewers
+  scores?: Record<string, number>; // Raw classifier signals, for tuning
+}
+
+export interface ImageClassifier {
+  id: string; // Selected with MODERATION_CLASSIFIER
+  /**
+   * Screen one image
+   * @throws When the image cannot be classified; callers hold it for review
+   */
+  classify: (request: ModerationRequest) => Promise<ModerationResult>;
+}
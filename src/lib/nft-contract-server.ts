@@ -0,0 +1,65 @@
+/**
+ * Winter Cheer NFT Contract Reads and Owner Writes (server only)
+ * Confirms mints on Base before their clean images are revealed, and points
+ * revealed tokens at their final metadata when CONTRACT_OWNER_PRIVATE_KEY is set.
+ */
+
+import { createPublicClient, createWalletClient, http, type Hash } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { base } from 'viem/chains';
+import { WINTER_CHEER_ABI, WINTER_CHEER_CONTRACT_ADDRESS } from './nft-contract';
+
+export interface MintedToken {
+  tokenId: number;
+  tokenUri: string;
+}
+
+// BASE_RPC_URL falls back to the public Base RPC
+const transport = () => http(process.env.BASE_RPC_URL || undefined);
+
+const publicClient = createPublicClient({ chain: base, transport: transport() });
+
+/**
+ * Read the token a FID minted from the contract
+ * @returns MintedToken | null - null when the FID has not minted on-chain
+ */
+export async function getMintedToken(fid: number): Promise<MintedToken | null> {
+  const contract = { address: WINTER_CHEER_CONTRACT_ADDRESS, abi: WINTER_CHEER_ABI } as const;
+
+  const minted = await publicClient.readContract({ ...contract, functionName: 'hasFidMinted', args: [BigInt(fid)] });
+  if (!minted) return null;
+
+  const tokenId = await publicClient.readContract({ ...contract, functionName: 'getTokenIdByFid', args: [BigInt(fid)] });
+  const tokenUri = await publicClient.readContract({ ...contract, functionName: 'tokenURI', args: [tokenId] });
+
+  return { tokenId: Number(tokenId), tokenUri };
+}
+
+/**
+ * Point a token at new metadata with the contract owner's key
+ * @returns Hash | null - The confirmed transaction, null when no owner key is configured
+ */
+export async function updateTokenUri(tokenId: number, uri: string): Promise<Hash | null> {
+  const privateKey = process.env.CONTRACT_OWNER_PRIVATE_KEY;
+  if (!privateKey) return null;
+
+  const walletClient = createWalletClient({
+    account: privateKeyToAccount(privateKey as `0x${string}`),
+    chain: base,
+    transport: transport(),
+  });
+
+  const hash = await walletClient.writeContract({
+    address: WINTER_CHEER_CONTRACT_ADDRESS,
+    abi: WINTER_CHEER_ABI,
+    functionName: 'updateTokenURI',
+    args: [BigInt(tokenId), uri],
+  });
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== 'success') {
+    throw new Error(`updateTokenURI reverted in ${hash}`);
+  }
+
+  return hash;
+}
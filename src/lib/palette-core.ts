@@ -0,0 +1,390 @@
+/**
+ * PFP Palette Analysis Core
+ * Pure palette extraction from raw RGBA pixels. The browser and server
+ * analyzers only decode the image and hand the pixels to analyzeRgba, so the
+ * same PFP yields the same palette wherever it is analyzed.
+ */
+
+import { deltaE2000, labToRgb, rgbToHex, rgbToLab, type ColorPalette, type LabColor } from './color-utils';
+
+/**
+ * Decoded image: width * height pixels, 4 bytes (RGBA) each, row by row
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * A sampled color and how much of the image it stands for (pixel count, or
+ * summed saliency weight in subject mode)
+ */
+export interface WeightedColor {
+  r: number;
+  g: number;
+  b: number;
+  count: number;
+}
+
+/**
+ * Where an analyzed palette came from
+ * - direct: the PFP was decoded from its own URL
+ * - proxy: the PFP was fetched through /api/pfp-proxy (CORS-blocked hosts)
+ * - cache: the server reused a recently fetched copy of the PFP
+ * - fallback: the PFP could not be used, so the theme's fallback color applies
+ */
+export type PaletteSource = 'direct' | 'proxy' | 'cache' | 'fallback';
+
+export interface PfpAnalysis {
+  palette: ColorPalette;
+  source: PaletteSource;
+  /** Frames sampled (animated PFPs contribute several) */
+  frames: number;
+  /** Why the fallback palette was used */
+  reason?: string;
+}
+
+export const MAX_PALETTE_COLORS = 5;
+
+// Animated PFPs are sampled at up to this many evenly spaced frames
+export const MAX_SAMPLED_FRAMES = 8;
+
+// Longest side SVG PFPs are rasterized at before sampling
+export const SVG_RASTER_SIZE = 512;
+
+/**
+ * How pixels are chosen for clustering
+ * - center: every pixel of the center 50% counts the same
+ * - subject: the backdrop is estimated from the border and masked out, and
+ *   the remaining pixels are weighted by saliency
+ */
+export type SamplingMode = 'center' | 'subject';
+
+export const DEFAULT_SAMPLING_MODE: SamplingMode = 'subject';
+
+// Side of the square the sampled area is downscaled to before clustering
+const SAMPLE_SIZE = 64;
+
+const MAX_ITERATIONS = 12;
+
+// Clusters closer than this (CIEDE2000) to a bigger one are not separate colors
+const MIN_CLUSTER_DELTA_E = 12;
+
+// Width (in sampled pixels) of the border the backdrop is estimated from
+const BORDER_WIDTH = 2;
+
+// A border color covering at least this share of the border is backdrop
+const MIN_BACKGROUND_SHARE = 0.15;
+
+// Pixels closer than this (CIEDE2000) to a backdrop color are masked out
+const BACKGROUND_DELTA_E = 10;
+
+// Below this share of subject pixels the mask is not trusted and center sampling applies
+const MIN_SUBJECT_SHARE = 0.05;
+
+// Spread of the center bias, as a fraction of the image side
+const CENTER_BIAS_SIGMA = 0.3;
+
+interface PixelSample {
+  r: number;
+  g: number;
+  b: number;
+  lab: LabColor;
+  weight: number;
+}
+
+interface Cluster {
+  center: LabColor;
+  count: number;
+}
+
+/**
+ * Sample a region of an image at SAMPLE_SIZE x SAMPLE_SIZE
+ * Nearest neighbour keeps real PFP colors instead of blending edges into new ones.
+ */
+function sampleRegion(
+  { width, data }: RgbaImage,
+  left: number,
+  top: number,
+  regionWidth: number,
+  regionHeight: number
+): Uint8Array {
+  const sample = new Uint8Array(SAMPLE_SIZE * SAMPLE_SIZE * 4);
+
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    const sourceY = top + Math.floor(((y + 0.5) * regionHeight) / SAMPLE_SIZE);
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const sourceX = left + Math.floor(((x + 0.5) * regionWidth) / SAMPLE_SIZE);
+      const from = (sourceY * width + sourceX) * 4;
+      sample.set(data.subarray(from, from + 4), (y * SAMPLE_SIZE + x) * 4);
+    }
+  }
+
+  return sample;
+}
+
+/**
+ * Opaque pixels of a sample, converted to Lab
+ * @returns (PixelSample | null)[] - One entry per sampled pixel, null when transparent
+ */
+function toPixelSamples(pixels: Uint8Array): Array<PixelSample | null> {
+  const samples: Array<PixelSample | null> = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    // Skip transparent/semi-transparent pixels
+    if (pixels[i + 3] < 128) {
+      samples.push(null);
+      continue;
+    }
+
+    const [r, g, b] = [pixels[i], pixels[i + 1], pixels[i + 2]];
+    samples.push({ r, g, b, lab: rgbToLab(r, g, b), weight: 1 });
+  }
+  return samples;
+}
+
+/**
+ * Sample the center 50% of an image, every opaque pixel weighted equally
+ */
+function centerSamples(image: RgbaImage): PixelSample[] {
+  const { width, height } = image;
+  const pixels = sampleRegion(
+    image,
+    Math.floor(width * 0.25),
+    Math.floor(height * 0.25),
+    Math.max(1, Math.floor(width * 0.5)),
+    Math.max(1, Math.floor(height * 0.5))
+  );
+
+  return toPixelSamples(pixels).filter((sample): sample is PixelSample => sample !== null);
+}
+
+/**
+ * Estimate backdrop colors from the top and upper side borders
+ * The bottom is left out because portraits usually run off the bottom edge.
+ * @returns LabColor[] - Mean color of each border bucket big enough to be backdrop
+ */
+function estimateBackground(grid: Array<PixelSample | null>): LabColor[] {
+  const buckets = new Map<string, { l: number; a: number; b: number; count: number }>();
+  let borderPixels = 0;
+
+  for (let y = 0; y < Math.floor((SAMPLE_SIZE * 2) / 3); y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const onBorder = y < BORDER_WIDTH || x < BORDER_WIDTH || x >= SAMPLE_SIZE - BORDER_WIDTH;
+      const sample = grid[y * SAMPLE_SIZE + x];
+      if (!onBorder || !sample) continue;
+
+      borderPixels++;
+      const key = `${sample.r >> 5},${sample.g >> 5},${sample.b >> 5}`;
+      const bucket = buckets.get(key) ?? { l: 0, a: 0, b: 0, count: 0 };
+      bucket.l += sample.lab.l;
+      bucket.a += sample.lab.a;
+      bucket.b += sample.lab.b;
+      bucket.count++;
+      buckets.set(key, bucket);
+    }
+  }
+
+  return Array.from(buckets.values())
+    .filter(({ count }) => count >= borderPixels * MIN_BACKGROUND_SHARE)
+    .map(({ l, a, b, count }) => ({ l: l / count, a: a / count, b: b / count }));
+}
+
+/**
+ * Sample the whole image, mask out the backdrop and weight the rest by saliency
+ * Saliency combines a bias toward the center with contrast against the
+ * subject's mean color, so eyes, hair and accents outweigh large flat areas.
+ * @returns PixelSample[] | null - null when too little subject remains to trust the mask
+ */
+function subjectSamples(image: RgbaImage): PixelSample[] | null {
+  const grid = toPixelSamples(sampleRegion(image, 0, 0, image.width, image.height));
+  const background = estimateBackground(grid);
+
+  const subject: Array<{ sample: PixelSample; x: number; y: number }> = [];
+  grid.forEach((sample, index) => {
+    if (!sample) return;
+    if (background.some((color) => deltaE2000(color, sample.lab) < BACKGROUND_DELTA_E)) return;
+    subject.push({ sample, x: index % SAMPLE_SIZE, y: Math.floor(index / SAMPLE_SIZE) });
+  });
+
+  if (subject.length < SAMPLE_SIZE * SAMPLE_SIZE * MIN_SUBJECT_SHARE) {
+    return null;
+  }
+
+  const mean = subject.reduce(
+    (sum, { sample }) => ({ l: sum.l + sample.lab.l, a: sum.a + sample.lab.a, b: sum.b + sample.lab.b }),
+    { l: 0, a: 0, b: 0 }
+  );
+  mean.l /= subject.length;
+  mean.a /= subject.length;
+  mean.b /= subject.length;
+
+  const contrasts = subject.map(({ sample }) =>
+    Math.sqrt((sample.lab.l - mean.l) ** 2 + (sample.lab.a - mean.a) ** 2 + (sample.lab.b - mean.b) ** 2)
+  );
+  const maxContrast = Math.max(...contrasts);
+
+  return subject.map(({ sample, x, y }, index) => {
+    const dx = (x + 0.5) / SAMPLE_SIZE - 0.5;
+    const dy = (y + 0.5) / SAMPLE_SIZE - 0.5;
+    const centerBias = Math.exp(-(dx * dx + dy * dy) / (2 * CENTER_BIAS_SIGMA ** 2));
+    const contrast = maxContrast > 0 ? contrasts[index] / maxContrast : 0;
+    return { ...sample, weight: centerBias * (0.5 + 0.5 * contrast) };
+  });
+}
+
+/**
+ * Choose which frames of an animated image to sample
+ * @returns number[] - Up to MAX_SAMPLED_FRAMES frame indexes spread over the animation
+ */
+export function pickFrameIndexes(frameCount: number): number[] {
+  if (frameCount <= MAX_SAMPLED_FRAMES) {
+    return Array.from({ length: Math.max(1, frameCount) }, (_, index) => index);
+  }
+
+  return Array.from({ length: MAX_SAMPLED_FRAMES }, (_, index) =>
+    Math.floor((index * frameCount) / MAX_SAMPLED_FRAMES)
+  );
+}
+
+/**
+ * Seed centers with the heaviest 32-step RGB buckets, so clustering is
+ * deterministic and starts from colors that actually dominate the image
+ */
+function seedCenters(samples: PixelSample[]): LabColor[] {
+  const buckets = new Map<string, WeightedColor>();
+
+  for (const { r, g, b, weight } of samples) {
+    const key = `${r >> 5},${g >> 5},${b >> 5}`;
+    const bucket = buckets.get(key) ?? { r: 0, g: 0, b: 0, count: 0 };
+    bucket.r += r * weight;
+    bucket.g += g * weight;
+    bucket.b += b * weight;
+    bucket.count += weight;
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_PALETTE_COLORS)
+    .map(({ r, g, b, count }) => rgbToLab(r / count, g / count, b / count));
+}
+
+/**
+ * Cluster weighted samples with k-means (Euclidean distance in Lab)
+ * @returns Cluster[] - Non-empty clusters, heaviest first
+ */
+function clusterPixels(samples: PixelSample[]): Cluster[] {
+  let centers = seedCenters(samples);
+  let weights: number[] = [];
+  const assignments = new Array<number>(samples.length).fill(-1);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let moved = false;
+
+    samples.forEach(({ lab }, index) => {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+      centers.forEach((center, centerIndex) => {
+        const distance = (lab.l - center.l) ** 2 + (lab.a - center.a) ** 2 + (lab.b - center.b) ** 2;
+        if (distance < nearestDistance) {
+          nearest = centerIndex;
+          nearestDistance = distance;
+        }
+      });
+
+      if (assignments[index] !== nearest) {
+        assignments[index] = nearest;
+        moved = true;
+      }
+    });
+
+    const sums = centers.map(() => ({ l: 0, a: 0, b: 0 }));
+    weights = centers.map(() => 0);
+    samples.forEach(({ lab, weight }, index) => {
+      const sum = sums[assignments[index]];
+      sum.l += lab.l * weight;
+      sum.a += lab.a * weight;
+      sum.b += lab.b * weight;
+      weights[assignments[index]] += weight;
+    });
+
+    // Empty clusters keep their previous center
+    centers = centers.map((center, index) =>
+      weights[index] === 0
+        ? center
+        : { l: sums[index].l / weights[index], a: sums[index].a / weights[index], b: sums[index].b / weights[index] }
+    );
+
+    if (!moved) break;
+  }
+
+  return centers
+    .map((center, index) => ({ center, count: weights[index] ?? 0 }))
+    .filter((cluster) => cluster.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Saturation (0-1) of an RGB color, used to choose the accent
+ */
+function saturation({ r, g, b }: WeightedColor): number {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  return max === 0 ? 0 : (max - min) / max;
+}
+
+/**
+ * Assign palette roles to distinct colors
+ * Colors are returned as found in the PFP; theme mapping happens when traits
+ * are generated (see palette-mapping.ts).
+ * @param picked - Distinct colors, most common first
+ */
+export function buildPalette(picked: WeightedColor[]): ColorPalette | null {
+  if (picked.length === 0) return null;
+
+  const [primary, secondary = primary, ...rest] = picked;
+  const accent = rest.length > 0
+    ? rest.reduce((best, color) => (saturation(color) > saturation(best) ? color : best))
+    : secondary;
+
+  const toHex = (color: WeightedColor) => rgbToHex(color.r, color.g, color.b);
+
+  return {
+    primary: toHex(primary),
+    secondary: toHex(secondary),
+    accent: toHex(accent),
+    colors: picked.map(toHex),
+  };
+}
+
+/**
+ * Extract one palette from several frames of an animated image
+ * Every frame contributes equally, so the palette reflects the whole
+ * animation rather than its first frame.
+ * @returns ColorPalette | null - null when no frame has opaque pixels in the sampled area
+ */
+export function analyzeFrames(frames: RgbaImage[], mode: SamplingMode = DEFAULT_SAMPLING_MODE): ColorPalette | null {
+  const samples = frames.flatMap((frame) =>
+    (mode === 'subject' ? subjectSamples(frame) : null) ?? centerSamples(frame)
+  );
+
+  const clusters = clusterPixels(samples);
+
+  const distinct: Cluster[] = [];
+  for (const cluster of clusters) {
+    if (distinct.every((picked) => deltaE2000(picked.center, cluster.center) >= MIN_CLUSTER_DELTA_E)) {
+      distinct.push(cluster);
+    }
+  }
+
+  return buildPalette(distinct.map(({ center, count }) => ({ ...labToRgb(center), count })));
+}
+
+/**
+ * Extract a palette from a decoded image
+ * @returns ColorPalette | null - null when the sampled area has no opaque pixels
+ */
+export function analyzeRgba(image: RgbaImage, mode: SamplingMode = DEFAULT_SAMPLING_MODE): ColorPalette | null {
+  return analyzeFrames([image], mode);
+}
@@ -0,0 +1,80 @@
+/**
+ * Runs the golden palette fixtures through the server adapter (sharp) and the
+ * browser adapter. Node has no canvas, so the browser adapter's Image and
+ * canvas are stood in for by sharp-backed fakes that hand over the decoded
+ * pixels unchanged; everything from decoding the blob onward is the real code.
+ */
+
+import { resolveObjectURL } from 'node:buffer';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { drawFixture, PALETTE_FIXTURES } from './palette-fixtures';
+import type { RgbaImage } from './palette-core';
+import { extractPaletteFromBlob } from './pfp-analyzer';
+import { extractPaletteFromImage } from './pfp-analyzer-server';
+
+async function fixturePng(fixture: (typeof PALETTE_FIXTURES)[number]): Promise<Buffer> {
+  const { width, height, data } = drawFixture(fixture);
+  return sharp(Buffer.from(data), { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+// Decodes its object URL with sharp, as a browser would with its own decoder
+class FakeImage {
+  src = '';
+  naturalWidth = 0;
+  naturalHeight = 0;
+  pixels: RgbaImage | null = null;
+
+  async decode(): Promise<void> {
+    const blob = resolveObjectURL(this.src);
+    if (!blob) throw new Error(`Unknown object URL ${this.src}`);
+
+    const { data, info } = await sharp(Buffer.from(await blob.arrayBuffer()))
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    this.naturalWidth = info.width;
+    this.naturalHeight = info.height;
+    this.pixels = { width: info.width, height: info.height, data: new Uint8ClampedArray(data) };
+  }
+}
+
+// Canvas that only supports drawing a FakeImage at its natural size
+function fakeCanvas() {
+  let drawn: RgbaImage | null = null;
+  return {
+    width: 0,
+    height: 0,
+    getContext: () => ({
+      drawImage(image: FakeImage, x: number, y: number, width: number, height: number) {
+        if (width !== image.naturalWidth || height !== image.naturalHeight) {
+          throw new Error('Scaled draws are not supported');
+        }
+        drawn = image.pixels;
+      },
+      getImageData: () => drawn,
+    }),
+  };
+}
+
+describe('palette golden fixtures', () => {
+  beforeAll(() => {
+    vi.stubGlobal('Image', FakeImage);
+    vi.stubGlobal('document', { createElement: () => fakeCanvas() });
+  });
+
+  afterAll(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe.each(PALETTE_FIXTURES)('$name ($mode)', (fixture) => {
+    it('matches through the server adapter', async () => {
+      expect(await extractPaletteFromImage(await fixturePng(fixture), fixture.mode)).toEqual(fixture.expected);
+    });
+
+    it('matches through the browser adapter', async () => {
+      const blob = new Blob([new Uint8Array(await fixturePng(fixture))], { type: 'image/png' });
+      expect(await extractPaletteFromBlob(blob, fixture.mode)).toEqual(fixture.expected);
+    });
+  });
+});
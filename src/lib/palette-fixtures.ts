@@ -0,0 +1,165 @@
+/**
+ * Palette Golden Fixtures
+ * Small procedurally drawn images with the palette the shared core must
+ * extract from them. The browser and server adapters both have to reproduce
+ * these exactly; `npm test` runs them through both (palette-fixtures.test.ts)
+ * and /api/palette-fixtures through the deployed server decoder.
+ */
+
+import type { ColorPalette } from './color-utils';
+import type { RgbaImage, SamplingMode } from './palette-core';
+
+type Rgba = [number, number, number, number];
+
+interface FixtureRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  color: Rgba;
+}
+
+export interface PaletteFixture {
+  name: string;
+  width: number;
+  height: number;
+  background: Rgba;
+  rects: FixtureRect[];
+  mode: SamplingMode;
+  /** Palette the core must extract, null when nothing is opaque */
+  expected: ColorPalette | null;
+}
+
+// Head, hair, shirt and mouth on a sky backdrop
+const AVATAR_RECTS: FixtureRect[] = [
+  { x: 45, y: 20, width: 60, height: 80, color: [240, 200, 170, 255] },
+  { x: 45, y: 20, width: 60, height: 22, color: [90, 50, 30, 255] },
+  { x: 35, y: 80, width: 80, height: 33, color: [30, 140, 60, 255] },
+  { x: 68, y: 60, width: 14, height: 8, color: [220, 30, 50, 255] },
+];
+
+// Single-pixel blue stripes on a yellow backdrop
+const STRIPE_RECTS: FixtureRect[] = Array.from({ length: 64 }, (_, index) => ({
+  x: 64 + index * 2,
+  y: 64,
+  width: 1,
+  height: 129,
+  color: [40, 60, 190, 255],
+}));
+
+export const PALETTE_FIXTURES: PaletteFixture[] = [
+  {
+    name: 'flat',
+    width: 96,
+    height: 96,
+    background: [200, 40, 60, 255],
+    rects: [],
+    mode: 'center',
+    expected: { primary: '#c8283c', secondary: '#c8283c', accent: '#c8283c', colors: ['#c8283c'] },
+  },
+  {
+    name: 'avatar',
+    // Odd size so the crop and the 64px grid never line up
+    width: 150,
+    height: 113,
+    background: [110, 170, 230, 255],
+    rects: AVATAR_RECTS,
+    mode: 'center',
+    expected: {
+      primary: '#f0c8aa',
+      secondary: '#5a321e',
+      accent: '#dc1e32',
+      colors: ['#f0c8aa', '#5a321e', '#6eaae6', '#1e8c3c', '#dc1e32'],
+    },
+  },
+  {
+    name: 'grayscale',
+    width: 128,
+    height: 128,
+    background: [20, 20, 20, 255],
+    rects: [
+      { x: 32, y: 32, width: 64, height: 32, color: [128, 128, 128, 255] },
+      { x: 32, y: 64, width: 64, height: 32, color: [235, 235, 235, 255] },
+    ],
+    mode: 'center',
+    expected: { primary: '#808080', secondary: '#ebebeb', accent: '#ebebeb', colors: ['#808080', '#ebebeb'] },
+  },
+  {
+    name: 'checker',
+    // Single-pixel stripes make any off-by-one in sampling visible
+    width: 257,
+    height: 257,
+    background: [250, 210, 30, 255],
+    rects: STRIPE_RECTS,
+    mode: 'center',
+    expected: { primary: '#fad21e', secondary: '#fad21e', accent: '#fad21e', colors: ['#fad21e'] },
+  },
+  {
+    name: 'cutout',
+    // Subject on a see-through background: only opaque pixels count
+    width: 100,
+    height: 100,
+    background: [0, 0, 0, 0],
+    rects: [
+      { x: 30, y: 30, width: 40, height: 40, color: [160, 40, 200, 255] },
+      { x: 40, y: 55, width: 20, height: 15, color: [255, 255, 255, 100] },
+    ],
+    mode: 'center',
+    expected: { primary: '#a028c8', secondary: '#a028c8', accent: '#a028c8', colors: ['#a028c8'] },
+  },
+  {
+    name: 'avatar-subject',
+    // The sky backdrop is masked out, so it must not reach the palette
+    width: 150,
+    height: 113,
+    background: [110, 170, 230, 255],
+    rects: AVATAR_RECTS,
+    mode: 'subject',
+    expected: {
+      primary: '#f0c8aa',
+      secondary: '#1e8c3c',
+      accent: '#dc1e32',
+      colors: ['#f0c8aa', '#1e8c3c', '#5a321e', '#dc1e32'],
+    },
+  },
+  {
+    name: 'checker-subject',
+    // Center sampling lands on the backdrop columns; subject sampling must not
+    width: 257,
+    height: 257,
+    background: [250, 210, 30, 255],
+    rects: STRIPE_RECTS,
+    mode: 'subject',
+    expected: { primary: '#283cbe', secondary: '#283cbe', accent: '#283cbe', colors: ['#283cbe'] },
+  },
+  {
+    name: 'transparent',
+    width: 64,
+    height: 64,
+    background: [0, 0, 0, 0],
+    rects: [],
+    mode: 'center',
+    expected: null,
+  },
+];
+
+/**
+ * Draw a fixture into raw RGBA pixels
+ */
+export function drawFixture({ width, height, background, rects }: PaletteFixture): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+
+  for (let i = 0; i < data.length; i += 4) {
+    data.set(background, i);
+  }
+
+  for (const rect of rects) {
+    for (let y = rect.y; y < Math.min(height, rect.y + rect.height); y++) {
+      for (let x = rect.x; x < Math.min(width, rect.x + rect.width); x++) {
+        data.set(rect.color, (y * width + x) * 4);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,134 @@
+/**
+ * Theme Palette Mapping
+ * Pulls colors extracted from a PFP toward the theme's palette, replaces
+ * colorless ones with theme colors picked per FID, and keeps hair and outfit
+ * readable against the character's background
+ */
+
+import { keccak256, toBytes } from 'viem';
+import {
+  contrastRatio,
+  deltaE2000,
+  hexToLab,
+  labToRgb,
+  rgbToHex,
+  type ColorPalette,
+  type LabColor,
+} from './color-utils';
+import type { ThemeDefinition } from './themes/types';
+
+// Colors with less Lab chroma than this count as grayscale
+const GRAYSCALE_CHROMA = 8;
+
+function labToHex(lab: LabColor): string {
+  const { r, g, b } = labToRgb(lab);
+  return rgbToHex(r, g, b);
+}
+
+/**
+ * First grayscale replacement for a FID
+ * Hash-based so the pick is identical on every engine and for every generation.
+ */
+function grayscaleOffset(fid: number, theme: ThemeDefinition): number {
+  const hash = keccak256(toBytes(`${theme.salt}:grayscale:${fid}`));
+  return parseInt(hash.slice(2, 10), 16) % theme.colorMapping.grayscalePalette.length;
+}
+
+/**
+ * Move a color toward the nearest theme color by the mapping strength
+ */
+function snapToThemePalette(lab: LabColor, theme: ThemeDefinition): LabColor {
+  const { palette, strength } = theme.colorMapping;
+
+  let target = lab;
+  let targetDelta = Infinity;
+  for (const hex of palette) {
+    const candidate = hexToLab(hex);
+    const delta = deltaE2000(lab, candidate);
+    if (delta < targetDelta) {
+      target = candidate;
+      targetDelta = delta;
+    }
+  }
+
+  return {
+    l: lab.l + (target.l - lab.l) * strength,
+    a: lab.a + (target.a - lab.a) * strength,
+    b: lab.b + (target.b - lab.b) * strength,
+  };
+}
+
+/**
+ * Map a PFP palette onto the theme
+ * Grayscale colors take consecutive entries of the theme's grayscale set,
+ * starting at a per-FID offset, so black-and-white PFPs still get distinct
+ * colors that differ between FIDs. Everything else is snapped toward the
+ * theme palette; working in Lab keeps the result from clipping to neon.
+ */
+export function mapPaletteToTheme(palette: ColorPalette, fid: number, theme: ThemeDefinition): ColorPalette {
+  const { grayscalePalette } = theme.colorMapping;
+  const offset = grayscaleOffset(fid, theme);
+  const mapped = new Map<string, string>();
+  let grays = 0;
+
+  for (const hex of palette.colors) {
+    if (mapped.has(hex)) continue;
+
+    const lab = hexToLab(hex);
+    if (Math.hypot(lab.a, lab.b) < GRAYSCALE_CHROMA) {
+      mapped.set(hex, grayscalePalette[(offset + grays++) % grayscalePalette.length]);
+    } else {
+      mapped.set(hex, labToHex(snapToThemePalette(lab, theme)));
+    }
+  }
+
+  // Roles point into colors, so they resolve to the same mapped values
+  const toTheme = (hex: string) => mapped.get(hex) ?? labToHex(snapToThemePalette(hexToLab(hex), theme));
+
+  return {
+    primary: toTheme(palette.primary),
+    secondary: toTheme(palette.secondary),
+    accent: toTheme(palette.accent),
+    colors: palette.colors.map(toTheme),
+  };
+}
+
+/**
+ * Lighten or darken a color until it reaches the theme's minimum contrast
+ * against a background, changing its lightness as little as possible
+ * @param background - Value of the theme's background slot
+ * @returns string - The color unchanged when it already contrasts enough or the background is unknown
+ */
+export function ensureBackgroundContrast(
+  hex: string,
+  background: string | number | undefined,
+  theme: ThemeDefinition
+): string {
+  const { minContrast, backgroundColors } = theme.colorMapping;
+  const backgroundHex = typeof background === 'string' ? backgroundColors[background] : undefined;
+  if (!backgroundHex || contrastRatio(hex, backgroundHex) >= minContrast) {
+    return hex;
+  }
+
+  const lab = hexToLab(hex);
+  let best = hex;
+  let bestContrast = contrastRatio(hex, backgroundHex);
+
+  for (let step = 1; step <= 100; step++) {
+    for (const l of [lab.l - step, lab.l + step]) {
+      if (l < 0 || l > 100) continue;
+
+      const candidate = labToHex({ ...lab, l });
+      const contrast = contrastRatio(candidate, backgroundHex);
+      if (contrast >= minContrast) {
+        return candidate;
+      }
+      if (contrast > bestContrast) {
+        best = candidate;
+        bestContrast = contrast;
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,116 @@
+/**
+ * Server-side PFP Color Analysis
+ * Decodes the PFP with sharp (including animated GIF/WebP and SVG) and
+ * extracts its palette with the shared core in palette-core.ts, so API routes
+ * derive the palette themselves instead of trusting colors sent by the client
+ */
+
+import sharp from 'sharp';
+import { singleColorPalette, type ColorPalette } from './color-utils';
+import { getFarcasterPfpUrl } from './farcaster-profile';
+import {
+  analyzeFrames,
+  DEFAULT_SAMPLING_MODE,
+  pickFrameIndexes,
+  SVG_RASTER_SIZE,
+  type PfpAnalysis,
+  type RgbaImage,
+  type SamplingMode,
+} from './palette-core';
+import { fetchPfp } from './pfp-cache';
+import { getActiveTheme } from './themes';
+import type { ThemeDefinition } from './themes/types';
+
+/**
+ * Decode the frames to sample: evenly spaced frames of animated GIF/WebP, an
+ * SVG rasterized at SVG_RASTER_SIZE, or the single frame of a still image
+ */
+async function decodeFrames(image: Buffer): Promise<RgbaImage[]> {
+  const { format, width = 0, height = 0, pages = 1 } = await sharp(image).metadata();
+  if (width === 0 || height === 0) {
+    throw new Error('Image has no dimensions');
+  }
+
+  // SVGs render at 72 DPI by default; scale so the longest side hits SVG_RASTER_SIZE
+  const density = format === 'svg' ? (72 * SVG_RASTER_SIZE) / Math.max(width, height) : undefined;
+
+  return Promise.all(
+    pickFrameIndexes(pages).map(async (page) => {
+      // Decode the way a browser canvas does: EXIF orientation applied, 8-bit
+      // sRGB with alpha, at full size. Sampling happens in the shared core.
+      const { data, info } = await sharp(image, { page, density })
+        .rotate()
+        .toColourspace('srgb')
+        .ensureAlpha()
+        .raw({ depth: 'uchar' })
+        .toBuffer({ resolveWithObject: true });
+
+      return { width: info.width, height: info.height, data };
+    })
+  );
+}
+
+/**
+ * Extract a palette from encoded image data
+ * @returns ColorPalette | null - null when the image has no opaque pixels
+ */
+export async function extractPaletteFromImage(
+  image: Buffer,
+  mode: SamplingMode = DEFAULT_SAMPLING_MODE
+): Promise<ColorPalette | null> {
+  return analyzeFrames(await decodeFrames(image), mode);
+}
+
+/**
+ * Analyze a PFP by URL on the server
+ * Falls back to the theme's color when the image cannot be fetched or decoded;
+ * the result records which path produced the palette.
+ */
+export async function analyzePFP(
+  imageUrl: string,
+  theme: ThemeDefinition = getActiveTheme()
+): Promise<PfpAnalysis> {
+  const fallback = (reason: string): PfpAnalysis => {
+    console.warn(`${reason}, using default palette`);
+    return { palette: singleColorPalette(theme.fallbackColor), source: 'fallback', frames: 0, reason };
+  };
+
+  let image: Buffer;
+  let cached: boolean;
+  try {
+    const fetched = await fetchPfp(imageUrl);
+    image = fetched.pfp.data;
+    cached = fetched.cached;
+  } catch (error) {
+    return fallback(error instanceof Error ? error.message : 'Failed to fetch PFP');
+  }
+
+  try {
+    const frames = await decodeFrames(image);
+    const palette = analyzeFrames(frames);
+    if (!palette) {
+      return fallback('PFP has no opaque pixels');
+    }
+
+    return { palette, source: cached ? 'cache' : 'direct', frames: frames.length };
+  } catch (error) {
+    console.error('Error analyzing PFP:', error);
+    return fallback('Failed to decode PFP');
+  }
+}
+
+/**
+ * Analyze the current PFP of a FID
+ */
+export async function analyzeFidPFP(
+  fid: number,
+  theme: ThemeDefinition = getActiveTheme()
+): Promise<PfpAnalysis> {
+  const pfpUrl = await getFarcasterPfpUrl(fid);
+  if (!pfpUrl) {
+    console.warn(`No PFP found for FID ${fid}, using default palette`);
+    return { palette: singleColorPalette(theme.fallbackColor), source: 'fallback', frames: 0, reason: 'No PFP found' };
+  }
+
+  return analyzePFP(pfpUrl, theme);
+}
@@ -1,195 +1,163 @@
 /**
  * PFP Color Analysis
- * Extracts dominant color from Farcaster profile picture
+ * Browser adapter: decodes the Farcaster profile picture (including animated
+ * GIF/WebP and SVG) with a canvas and extracts its palette with the shared
+ * core in palette-core.ts. Hosts that block cross-origin reads are retried
+ * through /api/pfp-proxy.
+ * Server-side analysis lives in pfp-analyzer-server.ts.
  */
 
-/**
- * Convert hex color to RGB
- */
-function hexToRgb(hex: string): { r: number; g: number; b: number } | null {
-  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  return result
-    ? {
-        r: parseInt(result[1], 16),
-        g: parseInt(result[2], 16),
-        b: parseInt(result[3], 16),
-      }
-    : null;
-}
+import { singleColorPalette, type ColorPalette } from './color-utils';
+import {
+  analyzeFrames,
+  DEFAULT_SAMPLING_MODE,
+  pickFrameIndexes,
+  SVG_RASTER_SIZE,
+  type PfpAnalysis,
+  type RgbaImage,
+  type SamplingMode,
+} from './palette-core';
+import { getActiveTheme } from './themes';
+import type { ThemeDefinition } from './themes/types';
 
 /**
- * Convert RGB to hex
+ * Read the pixels of a decoded image or video frame through a canvas
  */
-function rgbToHex(r: number, g: number, b: number): string {
-  return '#' + [r, g, b].map((x) => x.toString(16).padStart(2, '0')).join('');
-}
-
-/**
- * Make color more saturated and festive for Christmas theme
- */
-function enhanceColorForChristmas(hex: string): string {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return hex;
-
-  // Increase saturation
-  const max = Math.max(rgb.r, rgb.g, rgb.b);
-  const min = Math.min(rgb.r, rgb.g, rgb.b);
-  const delta = max - min;
-
-  if (delta === 0) {
-    // Grayscale - convert to festive red
-    return '#DC2626';
+function readPixels(source: CanvasImageSource, width: number, height: number): RgbaImage {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable');
   }
 
-  // Boost saturation by 30%
-  const boost = 1.3;
-  const newR = Math.min(255, Math.round(rgb.r + (rgb.r - min) * boost));
-  const newG = Math.min(255, Math.round(rgb.g + (rgb.g - min) * boost));
-  const newB = Math.min(255, Math.round(rgb.b + (rgb.b - min) * boost));
+  canvas.width = width;
+  canvas.height = height;
+  ctx.drawImage(source, 0, 0, width, height);
 
-  return rgbToHex(newR, newG, newB);
+  return ctx.getImageData(0, 0, width, height);
 }
 
 /**
- * Analyze image and extract dominant color
- * Uses canvas-based color sampling
+ * Decode evenly spaced frames of an animated image with WebCodecs
  */
-export async function analyzePFP(imageUrl: string): Promise<string> {
-  try {
-    // Fetch image as blob
-    const response = await fetch(imageUrl);
-    if (!response.ok) {
-      console.warn('Failed to fetch PFP, using default color');
-      return '#DC2626'; // Default festive red
-    }
+async function decodeAnimatedFrames(blob: Blob): Promise<RgbaImage[]> {
+  const decoder = new ImageDecoder({ data: await blob.arrayBuffer(), type: blob.type });
 
-    const blob = await response.blob();
-    const imageBitmap = await createImageBitmap(blob);
+  try {
+    await decoder.completed;
+    const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1;
 
-    // Create offscreen canvas
-    const canvas = new OffscreenCanvas(imageBitmap.width, imageBitmap.height);
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      return '#DC2626';
+    const frames: RgbaImage[] = [];
+    for (const frameIndex of pickFrameIndexes(frameCount)) {
+      const { image } = await decoder.decode({ frameIndex });
+      try {
+        frames.push(readPixels(image, image.displayWidth, image.displayHeight));
+      } finally {
+        image.close();
+      }
     }
+    return frames;
+  } finally {
+    decoder.close();
+  }
+}
 
-    ctx.drawImage(imageBitmap, 0, 0);
-
-    // Sample pixels from center area (avoid edges/background)
-    const imageData = ctx.getImageData(
-      imageBitmap.width * 0.25,
-      imageBitmap.height * 0.25,
-      imageBitmap.width * 0.5,
-      imageBitmap.height * 0.5
-    );
-
-    const pixels = imageData.data;
-    const colorMap: { [key: string]: number } = {};
-
-    // Count color occurrences (simplified color buckets)
-    for (let i = 0; i < pixels.length; i += 4) {
-      const r = Math.floor(pixels[i] / 32) * 32;
-      const g = Math.floor(pixels[i + 1] / 32) * 32;
-      const b = Math.floor(pixels[i + 2] / 32) * 32;
-      const alpha = pixels[i + 3];
-
-      // Skip transparent/semi-transparent pixels
-      if (alpha < 128) continue;
+/**
+ * Decode a still image (or the first frame where WebCodecs is unavailable)
+ * SVGs are rasterized with their longest side at SVG_RASTER_SIZE, as on the server.
+ */
+async function decodeStill(blob: Blob): Promise<RgbaImage> {
+  const objectUrl = URL.createObjectURL(blob);
 
-      const colorKey = `${r},${g},${b}`;
-      colorMap[colorKey] = (colorMap[colorKey] || 0) + 1;
+  try {
+    const img = new Image();
+    img.src = objectUrl;
+    await img.decode();
+
+    let { naturalWidth: width, naturalHeight: height } = img;
+    if (blob.type === 'image/svg+xml') {
+      const scale = SVG_RASTER_SIZE / Math.max(width, height, 1);
+      width = width > 0 ? Math.round(width * scale) : SVG_RASTER_SIZE;
+      height = height > 0 ? Math.round(height * scale) : SVG_RASTER_SIZE;
     }
 
-    // Find most common color
-    let dominantColor = '220,38,38'; // Default red
-    let maxCount = 0;
+    return readPixels(img, width, height);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
 
-    for (const [color, count] of Object.entries(colorMap)) {
-      if (count > maxCount) {
-        maxCount = count;
-        dominantColor = color;
-      }
-    }
+/**
+ * Decode the frames of an image
+ */
+async function decodeFrames(blob: Blob): Promise<RgbaImage[]> {
+  const animated =
+    blob.type !== 'image/svg+xml' &&
+    typeof ImageDecoder !== 'undefined' &&
+    (await ImageDecoder.isTypeSupported(blob.type));
 
-    const [r, g, b] = dominantColor.split(',').map(Number);
-    const hexColor = rgbToHex(r, g, b);
+  return animated ? decodeAnimatedFrames(blob) : [await decodeStill(blob)];
+}
 
-    // Enhance for festive theme
-    return enhanceColorForChristmas(hexColor);
-  } catch (error) {
-    console.error('Error analyzing PFP:', error);
-    return '#DC2626'; // Fallback to festive red
+/**
+ * Load and decode the frames of a PFP
+ * @throws When the image cannot be fetched (including CORS-blocked hosts) or decoded
+ */
+async function loadFrames(url: string): Promise<RgbaImage[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load PFP (${response.status})`);
   }
+
+  return decodeFrames(await response.blob());
+}
+
+/**
+ * Extract the palette of an image already in memory
+ * @returns ColorPalette | null - null when the image has no opaque pixels
+ */
+export async function extractPaletteFromBlob(
+  blob: Blob,
+  mode: SamplingMode = DEFAULT_SAMPLING_MODE
+): Promise<ColorPalette | null> {
+  return analyzeFrames(await decodeFrames(blob), mode);
 }
 
 /**
  * Client-side PFP analysis using HTML canvas
  * (for use in browser environment)
+ * @param fid - Owner of the PFP; enables the proxy retry for CORS-blocked hosts
+ * @returns PfpAnalysis - palette plus the path that produced it
  */
-export async function analyzePFPClient(imageUrl: string): Promise<string> {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
+export async function analyzePFPClient(
+  imageUrl: string,
+  fid: number | null,
+  theme: ThemeDefinition = getActiveTheme()
+): Promise<PfpAnalysis> {
+  const fallback = (reason: string): PfpAnalysis => {
+    console.warn(`${reason}, using default palette`);
+    return { palette: singleColorPalette(theme.fallbackColor), source: 'fallback', frames: 0, reason };
+  };
+
+  const attempts: Array<{ source: 'direct' | 'proxy'; url: string }> = [{ source: 'direct', url: imageUrl }];
+  if (fid) {
+    attempts.push({ source: 'proxy', url: `/api/pfp-proxy?fid=${fid}` });
+  }
 
-    img.onload = () => {
-      try {
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          resolve('#DC2626');
-          return;
-        }
-
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx.drawImage(img, 0, 0);
-
-        // Sample from center
-        const imageData = ctx.getImageData(
-          img.width * 0.25,
-          img.height * 0.25,
-          img.width * 0.5,
-          img.height * 0.5
-        );
-
-        const pixels = imageData.data;
-        let r = 0,
-          g = 0,
-          b = 0,
-          count = 0;
-
-        for (let i = 0; i < pixels.length; i += 4) {
-          const alpha = pixels[i + 3];
-          if (alpha >= 128) {
-            r += pixels[i];
-            g += pixels[i + 1];
-            b += pixels[i + 2];
-            count++;
-          }
-        }
-
-        if (count === 0) {
-          resolve('#DC2626');
-          return;
-        }
-
-        const avgR = Math.round(r / count);
-        const avgG = Math.round(g / count);
-        const avgB = Math.round(b / count);
-        const hexColor = rgbToHex(avgR, avgG, avgB);
-
-        resolve(enhanceColorForChristmas(hexColor));
-      } catch (error) {
-        console.error('Error in client-side PFP analysis:', error);
-        resolve('#DC2626');
-      }
-    };
+  let lastError: unknown;
+  for (const { source, url } of attempts) {
+    let frames: RgbaImage[];
+    try {
+      frames = await loadFrames(url);
+    } catch (error) {
+      console.warn(`Could not load PFP (${source}):`, error);
+      lastError = error;
+      continue;
+    }
 
-    img.onerror = () => {
-      console.warn('Failed to load PFP image');
-      resolve('#DC2626');
-    };
+    const palette = analyzeFrames(frames);
+    return palette ? { palette, source, frames: frames.length } : fallback('PFP has no opaque pixels');
+  }
 
-    img.src = imageUrl;
-  });
+  return fallback(lastError instanceof Error ? lastError.message : 'Failed to load PFP');
 }
@@ -0,0 +1,77 @@
+/**
+ * PFP Fetch Cache
+ * Fetches profile pictures on the server and keeps recent ones in memory,
+ * keyed by a hash of the URL, so analysis and /api/pfp-proxy share one fetch
+ */
+
+import { createHash } from 'crypto';
+
+export interface CachedPfp {
+  data: Buffer;
+  contentType: string;
+  fetchedAt: number;
+}
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+const MAX_CACHED_PFPS = 200;
+
+// Larger files are not PFPs we can sample sensibly
+export const MAX_PFP_BYTES = 5 * 1024 * 1024;
+
+const cache = new Map<string, CachedPfp>();
+
+/**
+ * Cache key for a PFP URL
+ */
+export function hashPfpUrl(url: string): string {
+  return createHash('sha256').update(url).digest('hex');
+}
+
+/**
+ * Fetch a PFP, reusing a cached copy while it is fresh
+ * @returns { pfp, cached } - cached is true when no request was made
+ * @throws When the URL is not http(s), the request fails, or the response is not a usable image
+ */
+export async function fetchPfp(url: string): Promise<{ pfp: CachedPfp; cached: boolean }> {
+  const key = hashPfpUrl(url);
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.fetchedAt < CACHE_TTL_MS) {
+    return { pfp: hit, cached: true };
+  }
+
+  const { protocol } = new URL(url);
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    throw new Error(`Unsupported PFP URL protocol: ${protocol}`);
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch PFP: ${response.status} ${response.statusText}`);
+  }
+
+  const contentType = response.headers.get('content-type')?.split(';')[0].trim() ?? '';
+  if (!contentType.startsWith('image/')) {
+    throw new Error(`PFP is not an image: ${contentType || 'unknown content type'}`);
+  }
+
+  if (Number(response.headers.get('content-length') ?? 0) > MAX_PFP_BYTES) {
+    throw new Error(`PFP is too large: ${response.headers.get('content-length')} bytes`);
+  }
+
+  const data = Buffer.from(await response.arrayBuffer());
+  if (data.length > MAX_PFP_BYTES) {
+    throw new Error(`PFP is too large: ${data.length} bytes`);
+  }
+
+  const pfp = { data, contentType, fetchedAt: Date.now() };
+
+  // Map keeps insertion order, so the first key is the oldest entry
+  cache.delete(key);
+  cache.set(key, pfp);
+  if (cache.size > MAX_CACHED_PFPS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+
+  return { pfp, cached: false };
+}
@@ -0,0 +1,76 @@
+/**
+ * Prompt Template Engine
+ * Renders a theme's versioned prompt templates from traits
+ */
+
+import { hexToColorName } from './color-utils';
+import { getStylePreset, getTheme } from './themes';
+import type { PromptTemplate, ThemeDefinition } from './themes/types';
+import { COLOR_KEYS, TRAIT_META_KEYS, type CharacterTraits } from './trait-generator';
+
+export interface BuiltPrompt {
+  version: string;
+  prompt: string;
+  negativePrompt?: string;
+}
+
+/**
+ * Get a prompt template of a theme
+ * @param version - Defaults to PROMPT_VERSION, then the theme's default version
+ */
+export function getPromptTemplate(theme: ThemeDefinition, version?: string): PromptTemplate {
+  const wanted = version || process.env.PROMPT_VERSION || theme.defaultPromptVersion;
+  const template = theme.prompts.find((candidate) => candidate.version === wanted);
+  if (!template) {
+    throw new Error(`Unknown prompt version for ${theme.id}: ${wanted}`);
+  }
+  return template;
+}
+
+/**
+ * Replace {placeholders} with their values, leaving unknown ones untouched
+ */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => variables[key] ?? match);
+}
+
+/**
+ * Build AI generation prompt from traits using the theme's prompt template
+ * @param traits - Character traits
+ * @param version - Prompt version, defaults to the active one
+ */
+export function buildPromptFromTraits(traits: CharacterTraits, version?: string): BuiltPrompt {
+  const theme = getTheme(traits.theme);
+  const template = getPromptTemplate(theme, version);
+  const stylePreset = getStylePreset(theme, traits.artStyle);
+  const variables: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(traits)) {
+    if (value === undefined || TRAIT_META_KEYS.includes(key)) continue;
+
+    const override = template.phraseOverrides?.[key]?.[String(value)];
+    variables[key] = override ?? String(value).toLowerCase();
+  }
+
+  variables.style = stylePreset.style;
+  variables.styleFinish = stylePreset.finish;
+  variables.styleNegative = stylePreset.negativePrompt;
+  variables.gender = theme.genderDescriptions[traits.gender];
+  // Convert hex to descriptive color name for AI understanding
+  variables.color = hexToColorName(traits.hairColor);
+  for (const key of COLOR_KEYS) {
+    const hex = traits[key];
+    if (typeof hex === 'string' && key !== 'palette') {
+      variables[`${key}Name`] = hexToColorName(hex);
+    }
+  }
+  // Pre-palette traits have no eye or accessory color
+  variables.eyeColorName ??= variables.hairColorName;
+  variables.accessoryColorName ??= variables.outfitColorName;
+
+  return {
+    version: template.version,
+    prompt: renderTemplate(template.template, variables),
+    negativePrompt: template.negativePrompt && renderTemplate(template.negativePrompt, variables),
+  };
+}
@@ -9,10 +9,29 @@ import { createClient } from '@supabase/supabase-js';
 const supabaseUrl = 'https://ztnkuomgjfkyhroaeduo.supabase.co';
 const supabaseAnonKey = '..';
 
+/**
+ * Key the client connects with
+ * The server needs the service role key, which bypasses RLS: no table is
+ * writable, and tables holding clean image URLs are not readable, with the anon
+ * key (see DATABASE_SETUP.md). Browsers only make public reads with the anon key.
+ * @throws On the server when SUPABASE_SERVICE_ROLE_KEY is not set
+ */
+function supabaseKey(): string {
+  if (typeof window !== 'undefined') {
+    return supabaseAnonKey;
+  }
+
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set; the server cannot read or write the database without it');
+  }
+  return serviceRoleKey;
+}
+
 // Create Supabase client
 export const supabase = createClient(
   supabaseUrl,
-  supabaseAnonKey,
+  supabaseKey(),
   {
     auth: {
       persistSession: false,
@@ -33,6 +52,13 @@ export interface MintedNFT {
   metadata_ipfs_uri: string | null;
   metadata_gateway_url: string | null; // Added gateway URL for metadata
   traits: Record<string, string | number>;
+  trait_dna: string | null; // Null for mints recorded before trait DNA existed
+  prompt_version: string | null; // Null for mints recorded before prompt versioning
+  image_directory_uri: string | null; // Null for mints pinned before image derivatives
+  image_seed: number | null; // Chosen candidate, null for mints from before previews
+  preview_metadata_uri: string | null; // Watermarked metadata the token was minted with
+  revealed_at: string | null; // When the clean image was pinned, null until then
+  reveal_tx_hash: string | null; // updateTokenURI to the clean metadata, null until sent
   tx_hash: string | null;
   minted_at: string;
 }
@@ -44,6 +70,61 @@ export interface NFTMetadataCache {
   dominant_color: string;
   traits: Record<string, string | number>;
   image_url: string | null;
+  trait_dna: string | null; // Missing on rows cached before generation caching
+  prompt_version: string | null;
+  color_match: number | null; // 0-1 match of hair and outfit colors, null when unverified
+  candidates: Array<{ imageUrl: string; seed: number; colorMatch: number | null }> | null; // Best first
+  created_at: string;
+}
+
+export interface TraitReroll {
+  fid: number;
+  slot: string; // The only slot this FID may reroll
+  seed: number;
+  count: number;
+  updated_at: string;
+}
+
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface GenerationJob {
+  id: string;
+  fid: number;
+  status: GenerationJobStatus;
+  progress: number; // 0-100
+  stage: string | null; // Current step, shown to the user
+  input: Record<string, unknown>; // Request the job was created from
+  result: Record<string, unknown> | null; // Set once done
+  error: string | null; // Set once failed
+  created_at: string;
+  updated_at: string;
+}
+
+export type ModerationReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ModerationReview {
+  id: string;
+  fid: number;
+  image_url: string;
+  image_hash: string; // SHA-256 of the generated image
+  traits: Record<string, string | number>;
+  classifier: string;
+  verdict: 'flag' | 'block';
+  reasons: string[];
+  status: ModerationReviewStatus;
+  created_at: string;
+  reviewed_at: string | null;
+}
+
+export interface MintPreview {
+  id: number;
+  fid: number;
+  preview_metadata_uri: string; // Pre-reveal metadata a token is minted with
+  traits: Record<string, string | number>;
+  trait_dna: string;
+  prompt_version: string;
+  image_seed: number; // Candidate the preview shows
+  animation_url: string | null; // Carried over to the revealed metadata
   created_at: string;
 }
 
@@ -0,0 +1,58 @@
+/**
+ * Theme Pack Registry
+ * Add a theme by creating its pack file and listing it in THEMES.
+ * The collection's theme is selected with NEXT_PUBLIC_COLLECTION_THEME.
+ */
+
+import type { StylePreset, ThemeDefinition } from './types';
+import { winterCheerTheme } from './winter-cheer';
+
+// Traits stored before theme packs existed carry no theme id
+export const DEFAULT_THEME_ID = winterCheerTheme.id;
+
+const THEMES: Record<string, ThemeDefinition> = {
+  [winterCheerTheme.id]: winterCheerTheme,
+};
+
+/**
+ * Whether a theme pack with this id is registered
+ */
+export function isThemeId(id: string): boolean {
+  return Object.hasOwn(THEMES, id);
+}
+
+/**
+ * Get a theme pack by id
+ * @throws On an unknown id; check ids from client input with isThemeId first
+ */
+export function getTheme(id: string = DEFAULT_THEME_ID): ThemeDefinition {
+  if (!isThemeId(id)) {
+    throw new Error(`Unknown theme: ${id}`);
+  }
+  return THEMES[id];
+}
+
+/**
+ * Get the theme pack of the running collection
+ */
+export function getActiveTheme(): ThemeDefinition {
+  return getTheme(process.env.NEXT_PUBLIC_COLLECTION_THEME || DEFAULT_THEME_ID);
+}
+
+export function listThemes(): ThemeDefinition[] {
+  return Object.values(THEMES);
+}
+
+/**
+ * Get a style preset of a theme
+ * @param id - Preset id, defaults to the theme's first preset
+ */
+export function getStylePreset(theme: ThemeDefinition, id?: string): StylePreset {
+  if (!id) return theme.stylePresets[0];
+
+  const preset = theme.stylePresets.find((candidate) => candidate.id === id);
+  if (!preset) {
+    throw new Error(`Unknown style preset for ${theme.id}: ${id}`);
+  }
+  return preset;
+}
@@ -0,0 +1,69 @@
+/**
+ * Theme Pack Types
+ * A theme defines everything collection-specific: trait tables, rules,
+ * prompt template and color handling
+ */
+
+import type { TraitRule } from '../trait-rules';
+
+export type RarityTier = 'Common' | 'Uncommon' | 'Rare' | 'Legendary';
+
+export type CharacterGender = 'Male' | 'Female' | 'Neutral';
+
+export interface WeightedTrait {
+  value: string;
+  tier: RarityTier;
+  weight?: number; // Overrides the default weight of the tier
+}
+
+export interface ThemeSlot {
+  key: string; // Property name in the stored traits, e.g. 'outfit'
+  label: string; // Metadata trait_type, e.g. 'Outfit'
+  rngSlot: number; // Fixed RNG slot - never change once minted
+  table: WeightedTrait[];
+}
+
+export interface StylePreset {
+  id: string; // Stored in traits as artStyle - never change once minted
+  label: string; // Shown in the mint UI and as the Art Style attribute
+  style: string; // Character description inserted as {style}
+  finish: string; // Rendering keywords inserted as {styleFinish}
+  negativePrompt: string; // Inserted as {styleNegative}
+}
+
+export interface PromptTemplate {
+  version: string; // Recorded with each generation - never edit a released version
+  /**
+   * Prompt with {placeholders}: {style}, {styleFinish}, {gender}, {color}, any
+   * trait key such as {outfit}, and color names such as {outfitColorName}.
+   * Trait values are inserted in lower case.
+   */
+  template: string;
+  negativePrompt?: string; // May use {styleNegative}
+  // Per-trait phrases replacing the plain value, e.g. { accessory: { None: 'nothing' } }
+  phraseOverrides?: Record<string, Record<string, string>>;
+}
+
+export interface ColorMapping {
+  palette: string[]; // Theme colors PFP colors are pulled toward
+  strength: number; // 0 keeps PFP colors as they are, 1 snaps them onto the nearest theme color
+  grayscalePalette: string[]; // Replaces colorless PFP colors, picked per FID
+  minContrast: number; // Minimum WCAG contrast of hair and outfit against the background
+  backgroundSlot: string; // Slot whose value is the character's background
+  backgroundColors: Record<string, string>; // Dominant color of each background value
+}
+
+export interface ThemeDefinition {
+  id: string;
+  name: string;
+  salt: string; // Mixed into hash-based rolls so themes never share rolls
+  skinTones: string[];
+  slots: ThemeSlot[]; // Rolled in this order
+  rules: TraitRule[];
+  stylePresets: StylePreset[]; // The first one is the default, used by tokens minted before presets
+  genderDescriptions: Record<CharacterGender, string>;
+  prompts: PromptTemplate[];
+  defaultPromptVersion: string;
+  fallbackColor: string;
+  colorMapping: ColorMapping;
+}
@@ -0,0 +1,317 @@
+/**
+ * Winter Cheer Theme Pack
+ * Kawaii Christmas characters - the original collection
+ */
+
+import type { TraitRule } from '../trait-rules';
+import type { ColorMapping, PromptTemplate, StylePreset, ThemeDefinition, WeightedTrait } from './types';
+
+const FALLBACK_COLOR = '#DC2626'; // Festive red
+
+// Skin tones are picked uniformly and never count towards rarity
+const SKIN_TONES = ['Porcelain', 'Fair', 'Light', 'Medium', 'Tan', 'Deep'];
+
+const HAIR_STYLES: WeightedTrait[] = [
+  { value: 'Short Spiky', tier: 'Common' },
+  { value: 'Wavy Bob', tier: 'Common' },
+  { value: 'Long Straight', tier: 'Common' },
+  { value: 'Twin Tails', tier: 'Uncommon' },
+  { value: 'Ponytail', tier: 'Common' },
+  { value: 'Messy Bun', tier: 'Common' },
+  { value: 'Braided Crown', tier: 'Rare' },
+  { value: 'Side Part', tier: 'Common' },
+  { value: 'Curly Afro', tier: 'Uncommon' },
+  { value: 'Pixie Cut', tier: 'Uncommon' },
+  { value: 'Long Wavy', tier: 'Common' },
+  { value: 'Straight Bang', tier: 'Common' },
+  { value: 'Side Swept', tier: 'Common' },
+  { value: 'High Ponytail', tier: 'Uncommon' },
+  { value: 'Low Pigtails', tier: 'Uncommon' },
+  { value: 'Shoulder Length', tier: 'Common' },
+  { value: 'Wolf Cut', tier: 'Rare' },
+  { value: 'Mullet', tier: 'Rare' },
+  { value: 'Buzz Cut', tier: 'Uncommon' },
+  { value: 'Dreadlocks', tier: 'Rare' },
+];
+
+const EYE_STYLES: WeightedTrait[] = [
+  { value: 'Round Sparkle', tier: 'Common' },
+  { value: 'Sleepy', tier: 'Common' },
+  { value: 'Cat Eyes', tier: 'Uncommon' },
+  { value: 'Wide Innocent', tier: 'Common' },
+  { value: 'Sharp', tier: 'Common' },
+  { value: 'Determined', tier: 'Common' },
+  { value: 'Gentle', tier: 'Common' },
+  { value: 'Mysterious', tier: 'Rare' },
+  { value: 'Happy Crescent', tier: 'Uncommon' },
+  { value: 'Serious', tier: 'Common' },
+  { value: 'Cute Dot', tier: 'Uncommon' },
+  { value: 'Starry', tier: 'Legendary' },
+  { value: 'Sad', tier: 'Uncommon' },
+  { value: 'Closed Smile', tier: 'Common' },
+  { value: 'Intense', tier: 'Rare' },
+];
+
+const OUTFITS: WeightedTrait[] = [
+  { value: 'Santa Suit', tier: 'Common' },
+  { value: 'Ski Outfit', tier: 'Common' },
+  { value: 'Rudolf Costume', tier: 'Uncommon' },
+  { value: 'Elf Outfit', tier: 'Common' },
+  { value: 'Snowman Costume', tier: 'Uncommon' },
+  { value: 'Gingerbread Costume', tier: 'Rare' },
+  { value: 'Ice Royalty', tier: 'Legendary' },
+  { value: 'Candy Cane Striped', tier: 'Uncommon' },
+  { value: 'Mrs. Claus Dress', tier: 'Rare' },
+  { value: 'Winter Warrior', tier: 'Rare' },
+];
+
+const ACCESSORIES: WeightedTrait[] = [
+  { value: 'Candy Cane', tier: 'Common' },
+  { value: 'Teddy Bear', tier: 'Common' },
+  { value: 'Gift Box', tier: 'Common' },
+  { value: 'Snowflake Wand', tier: 'Rare' },
+  { value: 'Ornament Ball', tier: 'Common' },
+  { value: 'Jingle Bells', tier: 'Uncommon' },
+  { value: 'Mistletoe Branch', tier: 'Uncommon' },
+  { value: 'Winter Scarf', tier: 'Common' },
+  { value: 'Snow Globe', tier: 'Rare' },
+  { value: 'Holiday Wreath', tier: 'Uncommon' },
+  { value: 'Hot Cocoa Mug', tier: 'Common' },
+  { value: 'Gingerbread Cookie', tier: 'Uncommon' },
+  { value: 'String Lights', tier: 'Uncommon' },
+  { value: 'Poinsettia', tier: 'Rare' },
+  { value: 'None', tier: 'Common' },
+];
+
+const HEAD_ACCESSORIES: WeightedTrait[] = [
+  { value: 'Santa Hat', tier: 'Common' },
+  { value: 'Reindeer Antlers', tier: 'Uncommon' },
+  { value: 'Elf Hat', tier: 'Common' },
+  { value: 'Winter Beanie', tier: 'Common' },
+  { value: 'Fuzzy Earmuffs', tier: 'Uncommon' },
+  { value: 'Holly Crown', tier: 'Rare' },
+  { value: 'Snowflake Tiara', tier: 'Rare' },
+  { value: 'Knit Cap', tier: 'Common' },
+  { value: 'Aviator Hat', tier: 'Uncommon' },
+  { value: 'Halo', tier: 'Legendary' },
+  { value: 'Festive Headband', tier: 'Uncommon' },
+  { value: 'None', tier: 'Common' },
+];
+
+const BACKGROUNDS: WeightedTrait[] = [
+  { value: 'Snowy Forest', tier: 'Common' },
+  { value: 'Cozy Fireplace Room', tier: 'Common' },
+  { value: 'North Pole Workshop', tier: 'Uncommon' },
+  { value: 'Snow-Covered Village', tier: 'Common' },
+  { value: 'Starry Winter Night', tier: 'Uncommon' },
+  { value: 'Aurora Borealis', tier: 'Rare' },
+  { value: 'Candy Cane Land', tier: 'Rare' },
+  { value: "Santa's Workshop Interior", tier: 'Uncommon' },
+  { value: 'Ice Castle', tier: 'Legendary' },
+  { value: 'Christmas Tree Farm', tier: 'Common' },
+];
+
+const SPECIAL_EFFECTS: WeightedTrait[] = [
+  { value: 'Falling Snowflakes', tier: 'Common' },
+  { value: 'Magic Sparkles', tier: 'Uncommon' },
+  { value: 'Festive Glow', tier: 'Common' },
+  { value: 'Frost Particles', tier: 'Common' },
+  { value: 'Golden Light', tier: 'Rare' },
+  { value: 'Star Dust', tier: 'Rare' },
+  { value: 'Aurora Shimmer', tier: 'Legendary' },
+  { value: 'None', tier: 'Common' },
+];
+
+const RULES: TraitRule[] = [
+  {
+    kind: 'genderPool',
+    id: 'mrs-claus-dress-female',
+    slot: 'outfit',
+    values: ['Mrs. Claus Dress'],
+    genders: ['Female'],
+  },
+  {
+    kind: 'exclude',
+    id: 'rudolf-costume-headwear',
+    when: { slot: 'outfit', values: ['Rudolf Costume'] },
+    forbid: {
+      slot: 'headAccessory',
+      values: ['Halo', 'Santa Hat', 'Elf Hat', 'Snowflake Tiara', 'Aviator Hat', 'Holly Crown'],
+    },
+  },
+  {
+    kind: 'exclude',
+    id: 'santa-suit-elf-hat',
+    when: { slot: 'outfit', values: ['Santa Suit'] },
+    forbid: { slot: 'headAccessory', values: ['Elf Hat'] },
+  },
+  {
+    kind: 'exclude',
+    id: 'elf-outfit-santa-hat',
+    when: { slot: 'outfit', values: ['Elf Outfit'] },
+    forbid: { slot: 'headAccessory', values: ['Santa Hat'] },
+  },
+  {
+    kind: 'exclude',
+    id: 'buzz-cut-hair-accessories',
+    when: { slot: 'hairStyle', values: ['Buzz Cut'] },
+    forbid: { slot: 'headAccessory', values: ['Festive Headband', 'Snowflake Tiara', 'Holly Crown'] },
+  },
+  {
+    kind: 'exclude',
+    id: 'updo-covering-hats',
+    when: { slot: 'hairStyle', values: ['Twin Tails', 'High Ponytail', 'Braided Crown', 'Messy Bun', 'Low Pigtails'] },
+    forbid: { slot: 'headAccessory', values: ['Winter Beanie', 'Knit Cap', 'Aviator Hat'] },
+  },
+  {
+    kind: 'require',
+    id: 'halo-glow',
+    when: { slot: 'headAccessory', values: ['Halo'] },
+    require: { slot: 'specialEffect', values: ['Golden Light', 'Magic Sparkles', 'Festive Glow', 'Star Dust'] },
+  },
+  {
+    kind: 'exclude',
+    id: 'indoor-aurora',
+    when: { slot: 'background', values: ['Cozy Fireplace Room', "Santa's Workshop Interior"] },
+    forbid: { slot: 'specialEffect', values: ['Aurora Shimmer', 'Falling Snowflakes'] },
+  },
+];
+
+const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'anime-chibi',
+    label: 'Anime Chibi',
+    style: 'cute anime chibi character',
+    finish: 'Seal Online game character style, professional anime illustration, 4k quality',
+    negativePrompt: 'photorealistic, 3d render',
+  },
+  {
+    id: 'pixel-art',
+    label: 'Pixel Art',
+    style: 'cute pixel art chibi character',
+    finish: '16-bit RPG sprite style, crisp pixel art, limited color palette, clean pixel edges',
+    negativePrompt: 'smooth gradients, anti-aliasing, painterly, photorealistic, 3d render',
+  },
+  {
+    id: 'painterly',
+    label: 'Painterly',
+    style: 'cute storybook chibi character',
+    finish: 'painterly digital illustration, soft visible brush strokes, warm gouache texture',
+    negativePrompt: 'pixelated, flat vector art, photorealistic, 3d render',
+  },
+  {
+    id: '3d-toy',
+    label: '3D Toy',
+    style: 'cute chibi vinyl toy figure',
+    finish: 'glossy 3d render of a collectible designer toy, soft studio lighting, subsurface scattering',
+    negativePrompt: 'flat 2d illustration, sketch, pixelated, photorealistic human skin',
+  },
+];
+
+const NEGATIVE_PROMPT =
+  'photorealistic, 3d render, extra limbs, extra fingers, deformed hands, multiple characters, blurry, low quality, watermark, text, signature, monochrome';
+
+// Style-specific terms come from the style preset
+const STYLED_NEGATIVE_PROMPT =
+  'extra limbs, extra fingers, deformed hands, multiple characters, blurry, low quality, watermark, text, signature, monochrome, {styleNegative}';
+
+const PHRASE_OVERRIDES: PromptTemplate['phraseOverrides'] = {
+  outfit: {
+    'Candy Cane Striped': 'candy cane striped outfit',
+    'Ice Royalty': 'ice royalty gown',
+    'Winter Warrior': 'winter warrior armor',
+  },
+  accessory: { None: 'nothing' },
+  headAccessory: { None: 'no headwear' },
+  specialEffect: { None: 'clean lighting' },
+};
+
+const PROMPTS: PromptTemplate[] = [
+  {
+    // Original launch prompt
+    version: 'v1',
+    template:
+      '{style} {gender}, {skinTone} skin tone, {hairStyle} hairstyle with BRIGHT {color} colored hair, the hair MUST be EXACTLY this {color} shade, {eyeStyle} eyes, wearing {outfit} outfit that MUST be PRECISELY {color} color, matching the hair color EXACTLY. CRITICAL: Both the hair AND outfit MUST be {color} color. Holding {accessory}, wearing {headAccessory}, {background} background, {specialEffect}, kawaii Christmas aesthetic, Seal Online game character style, professional anime illustration, 4k quality, detailed and colorful. THE PRIMARY COLOR SCHEME MUST BE {color} for both hair and outfit - this is MANDATORY.',
+  },
+  {
+    version: 'v2',
+    template:
+      '{style} {gender}, {skinTone} skin tone, {hairStyle} hairstyle with {color} hair, {eyeStyle} eyes, wearing a {color} {outfit}, holding {accessory}, wearing {headAccessory}, {background} background, {specialEffect}, kawaii Christmas aesthetic, Seal Online game character style, professional anime illustration, 4k quality, detailed and colorful. Hair and outfit share one {color} color scheme.',
+    negativePrompt: NEGATIVE_PROMPT,
+    phraseOverrides: PHRASE_OVERRIDES,
+  },
+  {
+    // Palette colors: each part gets its own tint from the PFP
+    version: 'v3',
+    template:
+      '{style} {gender}, {skinTone} skin tone, {hairStyle} hairstyle with {hairColorName} hair, {eyeStyle} eyes with {eyeColorName} irises, wearing a {outfitColorName} {outfit}, holding {accessory}, wearing {headAccessory}, {accessoryColorName} accents, {background} background, {specialEffect}, kawaii Christmas aesthetic, Seal Online game character style, professional anime illustration, 4k quality, detailed and colorful.',
+    negativePrompt: NEGATIVE_PROMPT,
+    phraseOverrides: PHRASE_OVERRIDES,
+  },
+  {
+    // Style presets: rendering keywords come from the selected preset
+    version: 'v4',
+    template:
+      '{style} {gender}, {skinTone} skin tone, {hairStyle} hairstyle with {hairColorName} hair, {eyeStyle} eyes with {eyeColorName} irises, wearing a {outfitColorName} {outfit}, holding {accessory}, wearing {headAccessory}, {accessoryColorName} accents, {background} background, {specialEffect}, kawaii Christmas aesthetic, {styleFinish}, detailed and colorful.',
+    negativePrompt: STYLED_NEGATIVE_PROMPT,
+    phraseOverrides: PHRASE_OVERRIDES,
+  },
+];
+
+const COLOR_MAPPING: ColorMapping = {
+  palette: [
+    FALLBACK_COLOR,
+    '#9F1239', // Cranberry
+    '#15803D', // Holly green
+    '#14532D', // Pine
+    '#D4AF37', // Gold
+    '#1E3A8A', // Midnight blue
+    '#7DD3FC', // Ice blue
+    '#F8FAFC', // Snow
+    '#92400E', // Gingerbread
+    '#C0C0C0', // Silver
+  ],
+  strength: 0.35,
+  grayscalePalette: [FALLBACK_COLOR, '#15803D', '#D4AF37', '#1E3A8A', '#9F1239', '#0F766E'],
+  minContrast: 3,
+  backgroundSlot: 'background',
+  backgroundColors: {
+    'Snowy Forest': '#DCE8EF',
+    'Cozy Fireplace Room': '#7A3B1E',
+    'North Pole Workshop': '#8B3A2E',
+    'Snow-Covered Village': '#E4ECF2',
+    'Starry Winter Night': '#1B2340',
+    'Aurora Borealis': '#1F4D4A',
+    'Candy Cane Land': '#F6D6DC',
+    "Santa's Workshop Interior": '#6B3A24',
+    'Ice Castle': '#BFE3F2',
+    'Christmas Tree Farm': '#2F5D3A',
+  },
+};
+
+export const winterCheerTheme: ThemeDefinition = {
+  id: 'winter-cheer',
+  name: 'Winter Cheer',
+  salt: 'winter-cheer',
+  skinTones: SKIN_TONES,
+  slots: [
+    { key: 'hairStyle', label: 'Hair Style', rngSlot: 2, table: HAIR_STYLES },
+    { key: 'eyeStyle', label: 'Eye Style', rngSlot: 3, table: EYE_STYLES },
+    { key: 'outfit', label: 'Outfit', rngSlot: 4, table: OUTFITS },
+    { key: 'accessory', label: 'Accessory', rngSlot: 5, table: ACCESSORIES },
+    { key: 'headAccessory', label: 'Head Accessory', rngSlot: 6, table: HEAD_ACCESSORIES },
+    { key: 'background', label: 'Background', rngSlot: 7, table: BACKGROUNDS },
+    { key: 'specialEffect', label: 'Special Effect', rngSlot: 8, table: SPECIAL_EFFECTS },
+  ],
+  rules: RULES,
+  stylePresets: STYLE_PRESETS,
+  genderDescriptions: {
+    Male: 'masculine anime boy with sharp facial features, defined jawline, broader shoulders, boyish charm',
+    Female: 'feminine anime girl with soft delicate features, gentle expression, graceful appearance, cute demeanor',
+    Neutral: 'gender-neutral anime kid with soft balanced features, friendly expression, androgynous look, cheerful demeanor',
+  },
+  prompts: PROMPTS,
+  defaultPromptVersion: 'v4',
+  fallbackColor: FALLBACK_COLOR,
+  colorMapping: COLOR_MAPPING,
+};
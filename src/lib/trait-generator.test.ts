@@ -0,0 +1,139 @@
+/**
+ * Determinism of trait generation. Minted tokens are re-derived from their FID
+ * and generationVersion, so every version must keep producing the traits it
+ * produced at mint time; the pinned DNAs below fail on any change to a
+ * version's algorithm, tables or rules.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  CHARACTER_GENDERS,
+  COLOR_KEYS,
+  computeTraitDNA,
+  generateTraits,
+  generateUniqueTraits,
+  rerollTraitSlot,
+  TRAIT_META_KEYS,
+  verifyTraits,
+} from './trait-generator';
+import { getTheme } from './themes';
+import { validateTraits } from './trait-rules';
+
+const theme = getTheme('winter-cheer');
+const PALETTE = '#c8283c';
+const FID = 12345;
+
+const notTaken = async () => false;
+
+// Keys rolled from the FID, as opposed to colors and bookkeeping
+function rolledKeys(traits: Record<string, unknown>): string[] {
+  return Object.keys(traits).filter((key) => !COLOR_KEYS.includes(key) && !TRAIT_META_KEYS.includes(key));
+}
+
+describe.each([
+  {
+    version: 1,
+    dna: '0x8182e5b5385dd6152e6f706e5f497710c62624de1333a9d537a171fa6ac30851',
+    outfit: 'Elf Outfit',
+    headAccessory: 'Aviator Hat',
+  },
+  {
+    version: 2,
+    dna: '0x6c17d6e587638921563aef5cc08af84a3fc7b10119f5151f9fb792b4eceabc09',
+    outfit: 'Elf Outfit',
+    headAccessory: 'Santa Hat',
+  },
+  {
+    version: 3,
+    dna: '0x05c6208df70a44cd3d1c7af0da3efd7933d161f8553847dea142b28b6a674c87',
+    outfit: 'Elf Outfit',
+    headAccessory: 'Reindeer Antlers',
+  },
+])('generation version $version', ({ version, dna, outfit, headAccessory }) => {
+  const generate = () => generateTraits(FID, 'Female', PALETTE, { generationVersion: version, theme });
+
+  it('returns the same traits for the same FID', () => {
+    expect(generate()).toEqual(generate());
+  });
+
+  it('still produces the traits minted with it', () => {
+    const traits = generate();
+    expect(traits).toMatchObject({ generationVersion: version, outfit, headAccessory });
+    expect(computeTraitDNA(traits)).toBe(dna);
+  });
+
+  it('verifies the traits it generated', () => {
+    expect(verifyTraits(FID, generate())).toBe(true);
+  });
+});
+
+describe('DNA collisions', () => {
+  const original = generateTraits(FID, 'Female', PALETTE, { theme });
+  const takenDNA = computeTraitDNA(original);
+  const isTaken = async (dna: string) => dna === takenDNA;
+
+  it('keeps the first roll when its DNA is free', async () => {
+    expect(await generateUniqueTraits(FID, 'Female', PALETTE, notTaken)).toEqual(original);
+  });
+
+  it('rerolls a taken DNA to a different one with the next nonce', async () => {
+    const traits = await generateUniqueTraits(FID, 'Female', PALETTE, isTaken);
+
+    expect(traits.dnaNonce).toBe(1);
+    expect(computeTraitDNA(traits)).not.toBe(takenDNA);
+    expect(traits).toEqual(generateTraits(FID, 'Female', PALETTE, { theme, dnaNonce: 1 }));
+  });
+
+  it('lands every retry on the same free combination', async () => {
+    const first = await generateUniqueTraits(FID, 'Female', PALETTE, isTaken);
+    const second = await generateUniqueTraits(FID, 'Female', PALETTE, isTaken);
+
+    expect(second).toEqual(first);
+    expect(verifyTraits(FID, second)).toBe(true);
+  });
+});
+
+describe('trait rules', () => {
+  it.each(CHARACTER_GENDERS)('never produces a rule violation for %s characters', (gender) => {
+    for (let fid = 1; fid <= 500; fid++) {
+      const traits = generateTraits(fid, gender, PALETTE, { theme });
+      expect(validateTraits(traits).violations, `FID ${fid}`).toEqual([]);
+    }
+  });
+
+  it('never produces a rule violation after a DNA reroll', () => {
+    for (let fid = 1; fid <= 200; fid++) {
+      const traits = generateTraits(fid, 'Male', PALETTE, { theme, dnaNonce: 3 });
+      expect(validateTraits(traits).violations, `FID ${fid}`).toEqual([]);
+    }
+  });
+});
+
+describe.each(theme.slots.map(({ key }) => key))('rerolling %s', (slot) => {
+  const traits = generateTraits(FID, 'Female', PALETTE, { theme });
+
+  it('changes only the chosen slot', async () => {
+    for (let fid = 1; fid <= 50; fid++) {
+      const original = generateTraits(fid, 'Female', PALETTE, { theme });
+      const rerolled = await rerollTraitSlot(fid, original, slot, notTaken);
+
+      expect(rerolled[slot], `FID ${fid}`).not.toBe(original[slot]);
+      for (const key of rolledKeys(original)) {
+        if (key !== slot) {
+          expect(rerolled[key], `FID ${fid} ${key}`).toBe(original[key]);
+        }
+      }
+      expect(rolledKeys(rerolled).sort()).toEqual(rolledKeys(original).sort());
+      expect(rerolled).toMatchObject({ rerollSlot: slot, rerollSeed: expect.any(Number) });
+    }
+  });
+
+  it('rerolls deterministically and verifies', async () => {
+    const first = await rerollTraitSlot(FID, traits, slot, notTaken);
+    const second = await rerollTraitSlot(FID, traits, slot, notTaken);
+
+    expect(second).toEqual(first);
+    expect(verifyTraits(FID, first)).toBe(true);
+    expect(validateTraits(first).valid).toBe(true);
+  });
+});
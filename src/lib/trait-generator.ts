@@ -1,302 +1,554 @@
 /**
- * Winter Cheer NFT Trait Generation System
- * Generates unique traits based on FID with 6.2B+ possible combinations
+ * Character Trait Generation System
+ * Generates unique traits based on FID from the collection's theme pack
  */
 
-export interface WinterCheerTraits {
-  gender: 'Male' | 'Female';
+import { keccak256, toBytes } from 'viem';
+import { hexToHsl, nearestNamedColor, singleColorPalette, type ColorPalette } from './color-utils';
+import { ensureBackgroundContrast, mapPaletteToTheme } from './palette-mapping';
+import { findRuleViolations, type TraitSlot } from './trait-rules';
+import { getActiveTheme, getStylePreset, getTheme, isThemeId } from './themes';
+import type { CharacterGender, RarityTier, ThemeDefinition, WeightedTrait } from './themes/types';
+
+export type { CharacterGender, RarityTier, WeightedTrait } from './themes/types';
+
+/**
+ * Traits shared by every theme, plus one string per slot of the theme pack
+ * (e.g. hairStyle, outfit, background for Winter Cheer)
+ */
+export interface CharacterTraits {
+  gender: CharacterGender;
+  artStyle?: string; // Style preset id, missing for the theme's default preset
   skinTone: string;
-  hairStyle: string;
   hairColor: string;
-  eyeStyle: string;
-  outfit: string;
   outfitColor: string;
-  accessory: string;
-  headAccessory: string;
-  background: string;
-  specialEffect: string;
+  eyeColor?: string; // Missing on tokens generated before palettes
+  accessoryColor?: string;
+  palette?: string; // Comma-separated hex colors extracted from the PFP
+  theme?: string; // Missing on tokens generated before theme packs (winter-cheer)
+  generationVersion?: number; // Missing on tokens generated before versioning (v1)
+  dnaNonce?: number; // Set when rerolled away from a taken trait DNA
+  rerollSlot?: string; // Slot the user rerolled before minting
+  rerollSeed?: number; // Seed of the latest reroll of rerollSlot
+  [slot: string]: string | number | undefined;
+}
+
+export const CHARACTER_GENDERS: CharacterGender[] = ['Female', 'Male', 'Neutral'];
+
+/**
+ * Bookkeeping keys stored with traits that are not character traits
+ */
+export const TRAIT_META_KEYS = ['theme', 'generationVersion', 'dnaNonce', 'rerollSlot', 'rerollSeed'];
+
+/**
+ * Trait keys whose values come from the PFP palette rather than from rolls
+ */
+export const COLOR_KEYS = ['hairColor', 'outfitColor', 'eyeColor', 'accessoryColor', 'palette'];
+
+// Trait keys left out of the DNA: colors come from the PFP, not from rolls
+const DNA_EXCLUDED_KEYS = [...COLOR_KEYS, 'generationVersion', 'dnaNonce', 'rerollSlot', 'rerollSeed'];
+
+export interface GenerateTraitsOptions {
+  generationVersion?: number; // Only set when re-deriving old traits
+  theme?: ThemeDefinition; // Defaults to the collection's theme
+  dnaNonce?: number; // Reroll counter used to escape a taken trait DNA
+  artStyle?: string; // User-selected style preset id
+  reroll?: SlotReroll; // User reroll of a single slot
+}
+
+export interface SlotReroll {
+  slot: string; // Theme slot key, e.g. 'outfit'
+  seed: number; // Starts at 1; each reroll moves to a later seed
 }
 
-const SKIN_TONES = ['Porcelain', 'Fair', 'Light', 'Medium', 'Tan', 'Deep'];
-
-const HAIR_STYLES = [
-  'Short Spiky',
-  'Wavy Bob',
-  'Long Straight',
-  'Twin Tails',
-  'Ponytail',
-  'Messy Bun',
-  'Braided Crown',
-  'Side Part',
-  'Curly Afro',
-  'Pixie Cut',
-  'Long Wavy',
-  'Straight Bang',
-  'Side Swept',
-  'High Ponytail',
-  'Low Pigtails',
-  'Shoulder Length',
-  'Wolf Cut',
-  'Mullet',
-  'Buzz Cut',
-  'Dreadlocks',
-];
-
-const EYE_STYLES = [
-  'Round Sparkle',
-  'Sleepy',
-  'Cat Eyes',
-  'Wide Innocent',
-  'Sharp',
-  'Determined',
-  'Gentle',
-  'Mysterious',
-  'Happy Crescent',
-  'Serious',
-  'Cute Dot',
-  'Starry',
-  'Sad',
-  'Closed Smile',
-  'Intense',
-];
-
-const OUTFITS = [
-  'Santa Suit',
-  'Ski Outfit',
-  'Rudolf Costume',
-  'Elf Outfit',
-  'Snowman Costume',
-  'Gingerbread Costume',
-  'Ice Royalty',
-  'Candy Cane Striped',
-  'Mrs. Claus Dress',
-  'Winter Warrior',
-];
-
-const ACCESSORIES = [
-  'Candy Cane',
-  'Teddy Bear',
-  'Gift Box',
-  'Snowflake Wand',
-  'Ornament Ball',
-  'Jingle Bells',
-  'Mistletoe Branch',
-  'Winter Scarf',
-  'Snow Globe',
-  'Holiday Wreath',
-  'Hot Cocoa Mug',
-  'Gingerbread Cookie',
-  'String Lights',
-  'Poinsettia',
-  'None',
-];
-
-const HEAD_ACCESSORIES = [
-  'Santa Hat',
-  'Reindeer Antlers',
-  'Elf Hat',
-  'Winter Beanie',
-  'Fuzzy Earmuffs',
-  'Holly Crown',
-  'Snowflake Tiara',
-  'Knit Cap',
-  'Aviator Hat',
-  'Halo',
-  'Festive Headband',
-  'None',
-];
-
-const BACKGROUNDS = [
-  'Snowy Forest',
-  'Cozy Fireplace Room',
-  'North Pole Workshop',
-  'Snow-Covered Village',
-  'Starry Winter Night',
-  'Aurora Borealis',
-  'Candy Cane Land',
-  "Santa's Workshop Interior",
-  'Ice Castle',
-  'Christmas Tree Farm',
-];
-
-const SPECIAL_EFFECTS = [
-  'Falling Snowflakes',
-  'Magic Sparkles',
-  'Festive Glow',
-  'Frost Particles',
-  'Golden Light',
-  'Star Dust',
-  'Aurora Shimmer',
-  'None',
-];
+export interface TraitRarity {
+  score: number;
+  maxScore: number; // Score of the rarest possible combination
+  rank: RarityTier;
+  tiers: Record<string, RarityTier>;
+}
 
 /**
- * Generate a deterministic pseudo-random number based on FID and seed
+ * Default pick weight for each rarity tier (relative, not a percentage)
  */
-function seededRandom(fid: number, seed: number): number {
-  const x = Math.sin(fid * 12.9898 + seed * 78.233) * 43758.5453;
+export const TIER_WEIGHTS: Record<RarityTier, number> = {
+  Common: 100,
+  Uncommon: 40,
+  Rare: 12,
+  Legendary: 3,
+};
+
+export const CURRENT_GENERATION_VERSION = 3;
+
+// Rerolls of a slot before falling back to a compatible value
+const MAX_RULE_REROLLS = 8;
+
+// Rerolls of a whole trait set before giving up on finding a free DNA
+const MAX_DNA_REROLLS = 50;
+
+/**
+ * User rerolls of the chosen slot allowed per FID before minting
+ */
+export const MAX_TRAIT_REROLLS = 3;
+
+// Seeds tried per user reroll before giving up on a new, free value
+const MAX_REROLL_SEEDS = 20;
+
+// User rerolls use RNG slots rngSlot * 1000 + 500 + seed, clear of rule rerolls
+const REROLL_SLOT_OFFSET = 500;
+
+interface GenerationAlgorithm {
+  random: (salt: string, fid: number, slot: number) => number;
+  weighted: boolean;
+  rules: boolean;
+}
+
+type Roll = (slot: number) => number;
+
+/**
+ * Original generator (v1): float-precision dependent, kept only so traits
+ * minted before versioning can still be re-derived
+ */
+function sineRandom(_salt: string, fid: number, slot: number): number {
+  const x = Math.sin(fid * 12.9898 + slot * 78.233) * 43758.5453;
   return x - Math.floor(x);
 }
 
 /**
- * Pick random item from array using seeded random
+ * Hash-based generator (v2): keccak256 of theme salt, FID and slot
+ */
+function hashRandom(salt: string, fid: number, slot: number): number {
+  const hash = keccak256(toBytes(`${salt}:${fid}:${slot}`));
+  // 52 bits fit exactly in a double, so the result is identical on every engine
+  return parseInt(hash.slice(2, 15), 16) / 2 ** 52;
+}
+
+/**
+ * Every generation version that has ever produced traits.
+ * Never modify an existing entry - add a new version instead.
+ */
+const GENERATION_ALGORITHMS: Record<number, GenerationAlgorithm> = {
+  1: { random: sineRandom, weighted: false, rules: false },
+  2: { random: hashRandom, weighted: true, rules: false },
+  3: { random: hashRandom, weighted: true, rules: true },
+};
+
+function getGenerationAlgorithm(version: number): GenerationAlgorithm {
+  const algorithm = GENERATION_ALGORITHMS[version];
+  if (!algorithm) {
+    throw new Error(`Unknown trait generation version: ${version}`);
+  }
+  return algorithm;
+}
+
+/**
+ * Pick random item from array using the version's generator
  */
-function pickRandom<T>(array: T[], fid: number, seed: number): T {
-  const index = Math.floor(seededRandom(fid, seed) * array.length);
+function pickRandom<T>(array: T[], roll: Roll, slot: number): T {
+  const index = Math.floor(roll(slot) * array.length);
   return array[index];
 }
 
+function weightOf(entry: WeightedTrait): number {
+  return entry.weight ?? TIER_WEIGHTS[entry.tier];
+}
+
+function totalWeight(table: WeightedTrait[]): number {
+  return table.reduce((sum, entry) => sum + weightOf(entry), 0);
+}
+
+/**
+ * Pick a trait value from a weighted table
+ * Versions without weighting pick uniformly, as v1 did.
+ */
+function pickWeighted(table: WeightedTrait[], algorithm: GenerationAlgorithm, roll: Roll, slot: number): string {
+  if (!algorithm.weighted) {
+    return pickRandom(table, roll, slot).value;
+  }
+
+  let remaining = roll(slot) * totalWeight(table);
+
+  for (const entry of table) {
+    remaining -= weightOf(entry);
+    if (remaining < 0) return entry.value;
+  }
+
+  return table[table.length - 1].value;
+}
+
+/**
+ * Resolve rule violations slot by slot, in roll order
+ * A slot that clashes with an earlier slot is rerolled on fresh RNG slots; if
+ * every reroll clashes, the first compatible value in table order is used.
+ */
+function applyTraitRules(
+  traits: CharacterTraits,
+  theme: ThemeDefinition,
+  algorithm: GenerationAlgorithm,
+  roll: Roll
+): CharacterTraits {
+  const resolved = { ...traits };
+  const decided = new Set<TraitSlot>(['gender', 'skinTone', ...COLOR_KEYS]);
+  const clashes = (slot: TraitSlot) =>
+    findRuleViolations(resolved, theme.rules, decided).some((violation) => violation.slots.includes(slot));
+
+  for (const { key, rngSlot, table } of theme.slots) {
+    decided.add(key);
+
+    for (let attempt = 1; attempt <= MAX_RULE_REROLLS && clashes(key); attempt++) {
+      resolved[key] = pickWeighted(table, algorithm, roll, rngSlot * 1000 + attempt);
+    }
+
+    if (clashes(key)) {
+      const compatible = table.find((entry) => {
+        resolved[key] = entry.value;
+        return !clashes(key);
+      });
+      resolved[key] = compatible?.value ?? traits[key];
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Replace one slot of fully rolled traits with the user's reroll
+ * Every other slot keeps its value. A rerolled value that breaks a rule with
+ * them is replaced by the first compatible value in table order.
+ */
+function applySlotReroll(
+  traits: CharacterTraits,
+  theme: ThemeDefinition,
+  algorithm: GenerationAlgorithm,
+  roll: Roll,
+  reroll: SlotReroll
+): CharacterTraits {
+  const rerolledSlot = theme.slots.find(({ key }) => key === reroll.slot);
+  if (!rerolledSlot) {
+    throw new Error(`Unknown trait slot for ${theme.id}: ${reroll.slot}`);
+  }
+
+  const { key, rngSlot, table } = rerolledSlot;
+  const rerolled: CharacterTraits = {
+    ...traits,
+    [key]: pickWeighted(table, algorithm, roll, rngSlot * 1000 + REROLL_SLOT_OFFSET + reroll.seed),
+    rerollSlot: reroll.slot,
+    rerollSeed: reroll.seed,
+  };
+  const clashes = () => algorithm.rules && findRuleViolations(rerolled, theme.rules).length > 0;
+
+  if (clashes()) {
+    const compatible = table.find((entry) => {
+      rerolled[key] = entry.value;
+      return !clashes();
+    });
+    rerolled[key] = compatible?.value ?? traits[key];
+  }
+
+  return rerolled;
+}
+
+/**
+ * Map the PFP palette onto the theme and assign its colors to character parts
+ * A single hex (pre-palette clients) tints every part with the same color.
+ */
+function assignPaletteColors(
+  palette: ColorPalette | string,
+  fid: number,
+  theme: ThemeDefinition
+): Pick<CharacterTraits, 'hairColor' | 'outfitColor' | 'eyeColor' | 'accessoryColor' | 'palette'> {
+  const { primary, secondary, accent, colors } = mapPaletteToTheme(
+    typeof palette === 'string' ? singleColorPalette(palette) : palette,
+    fid,
+    theme
+  );
+
+  return {
+    hairColor: primary,
+    outfitColor: secondary,
+    eyeColor: accent,
+    accessoryColor: colors[3] ?? accent,
+    palette: colors.join(','),
+  };
+}
+
+/**
+ * Keep hair and outfit readable against the rolled background
+ */
+function applyBackgroundContrast(traits: CharacterTraits, theme: ThemeDefinition): CharacterTraits {
+  const background = traits[theme.colorMapping.backgroundSlot];
+
+  return {
+    ...traits,
+    hairColor: ensureBackgroundContrast(traits.hairColor, background, theme),
+    outfitColor: ensureBackgroundContrast(traits.outfitColor, background, theme),
+  };
+}
+
 /**
- * Generate unique traits for a Winter Cheer NFT based on FID
+ * Generate unique traits for an NFT based on FID
  * @param fid - Farcaster ID
  * @param gender - User-selected gender
- * @param dominantColor - Color extracted from PFP (hex format)
- * @returns WinterCheerTraits
+ * @param palette - Palette extracted from PFP (mapped onto the theme here), or a single hex color
+ * @param options - Version, theme and DNA nonce overrides
+ * @returns CharacterTraits
  */
 export function generateTraits(
   fid: number,
-  gender: 'Male' | 'Female',
-  dominantColor: string
-): WinterCheerTraits {
-  const traits: WinterCheerTraits = {
+  gender: CharacterGender,
+  palette: ColorPalette | string,
+  options: GenerateTraitsOptions = {}
+): CharacterTraits {
+  const {
+    generationVersion = CURRENT_GENERATION_VERSION,
+    theme = getActiveTheme(),
+    dnaNonce = 0,
+    artStyle,
+    reroll,
+  } = options;
+  const stylePreset = getStylePreset(theme, artStyle);
+  const algorithm = getGenerationAlgorithm(generationVersion);
+  // Each nonce moves every slot onto fresh RNG slots; nonce 0 keeps the original rolls
+  const roll: Roll = (slot) => algorithm.random(theme.salt, fid, slot + dnaNonce * 10000);
+
+  const traits: CharacterTraits = {
     gender,
-    skinTone: pickRandom(SKIN_TONES, fid, 1),
-    hairStyle: pickRandom(HAIR_STYLES, fid, 2),
-    hairColor: dominantColor,
-    eyeStyle: pickRandom(EYE_STYLES, fid, 3),
-    outfit: pickRandom(OUTFITS, fid, 4),
-    outfitColor: dominantColor,
-    accessory: pickRandom(ACCESSORIES, fid, 5),
-    headAccessory: pickRandom(HEAD_ACCESSORIES, fid, 6),
-    background: pickRandom(BACKGROUNDS, fid, 7),
-    specialEffect: pickRandom(SPECIAL_EFFECTS, fid, 8),
+    // The default style is left out so traits and DNA from before presets stay valid
+    ...(stylePreset !== theme.stylePresets[0] && { artStyle: stylePreset.id }),
+    skinTone: pickRandom(theme.skinTones, roll, 1),
+    ...assignPaletteColors(palette, fid, theme),
   };
 
-  return traits;
+  for (const { key, rngSlot, table } of theme.slots) {
+    traits[key] = pickWeighted(table, algorithm, roll, rngSlot);
+  }
+
+  traits.theme = theme.id;
+  traits.generationVersion = generationVersion;
+  if (dnaNonce > 0) {
+    traits.dnaNonce = dnaNonce;
+  }
+
+  const rolled = algorithm.rules ? applyTraitRules(traits, theme, algorithm, roll) : traits;
+  return applyBackgroundContrast(reroll ? applySlotReroll(rolled, theme, algorithm, roll, reroll) : rolled, theme);
 }
 
 /**
- * Convert traits to OpenSea-compatible metadata attributes
+ * Canonical trait DNA: keccak256 of the sorted rolled traits
+ * Two characters with the same DNA look the same apart from their colors.
  */
-export function traitsToAttributes(traits: WinterCheerTraits): Array<{
-  trait_type: string;
-  value: string | number;
-}> {
-  return [
-    { trait_type: 'Gender', value: traits.gender },
-    { trait_type: 'Skin Tone', value: traits.skinTone },
-    { trait_type: 'Hair Style', value: traits.hairStyle },
-    { trait_type: 'Hair Color', value: traits.hairColor },
-    { trait_type: 'Eye Style', value: traits.eyeStyle },
-    { trait_type: 'Outfit', value: traits.outfit },
-    { trait_type: 'Outfit Color', value: traits.outfitColor },
-    { trait_type: 'Accessory', value: traits.accessory },
-    { trait_type: 'Head Accessory', value: traits.headAccessory },
-    { trait_type: 'Background', value: traits.background },
-    { trait_type: 'Special Effect', value: traits.specialEffect },
-  ];
+export function computeTraitDNA(traits: CharacterTraits): string {
+  // Traits from before theme packs have no theme key but belong to the default theme
+  const source: CharacterTraits = { ...traits, theme: traits.theme ?? getTheme().id };
+
+  const canonical = Object.keys(source)
+    .filter((key) => !DNA_EXCLUDED_KEYS.includes(key) && source[key] !== undefined)
+    .sort()
+    .map((key) => `${key}=${String(source[key]).trim().toLowerCase()}`)
+    .join('|');
+
+  return keccak256(toBytes(canonical));
 }
 
 /**
- * Convert hex color to descriptive color name for AI prompt
+ * Generate traits whose DNA is not taken yet
+ * A collision deterministically rerolls with the next DNA nonce, so the same
+ * FID always lands on the same free combination.
+ * @param isTaken - Lookup of DNAs already minted by other FIDs
+ * @param options - User selections passed through to generateTraits
  */
-function hexToColorName(hex: string): string {
-  // Remove # if present
-  const cleanHex = hex.replace('#', '');
-  
-  // Convert to RGB
-  const r = parseInt(cleanHex.substring(0, 2), 16);
-  const g = parseInt(cleanHex.substring(2, 4), 16);
-  const b = parseInt(cleanHex.substring(4, 6), 16);
-  
-  // Convert to HSL for better color identification
-  const rNorm = r / 255;
-  const gNorm = g / 255;
-  const bNorm = b / 255;
-  
-  const max = Math.max(rNorm, gNorm, bNorm);
-  const min = Math.min(rNorm, gNorm, bNorm);
-  const delta = max - min;
-  
-  let h = 0;
-  let s = 0;
-  const l = (max + min) / 2;
-  
-  if (delta !== 0) {
-    s = l > 0.5 ? delta / (2 - max - min) : delta / (max + min);
-    
-    if (max === rNorm) {
-      h = ((gNorm - bNorm) / delta + (gNorm < bNorm ? 6 : 0)) / 6;
-    } else if (max === gNorm) {
-      h = ((bNorm - rNorm) / delta + 2) / 6;
-    } else {
-      h = ((rNorm - gNorm) / delta + 4) / 6;
+export async function generateUniqueTraits(
+  fid: number,
+  gender: CharacterGender,
+  palette: ColorPalette | string,
+  isTaken: (dna: string) => Promise<boolean>,
+  options: Pick<GenerateTraitsOptions, 'artStyle' | 'reroll'> = {}
+): Promise<CharacterTraits> {
+  for (let dnaNonce = 0; dnaNonce <= MAX_DNA_REROLLS; dnaNonce++) {
+    const traits = generateTraits(fid, gender, palette, { ...options, dnaNonce });
+    if (!(await isTaken(computeTraitDNA(traits)))) {
+      return traits;
     }
   }
-  
-  // Determine brightness descriptor
-  let brightness = '';
-  if (l > 0.8) brightness = 'very light';
-  else if (l > 0.6) brightness = 'light';
-  else if (l > 0.4) brightness = 'medium';
-  else if (l > 0.2) brightness = 'deep';
-  else brightness = 'very dark';
-  
-  // Determine saturation descriptor
-  let saturation = '';
-  if (s > 0.8) saturation = 'vivid';
-  else if (s > 0.5) saturation = 'vibrant';
-  else if (s > 0.2) saturation = 'muted';
-  else saturation = 'pale';
-  
-  // Determine hue name
-  const hue = h * 360;
-  let colorFamily = '';
-  
-  if (s < 0.1) {
-    // Grayscale
-    if (l > 0.9) return 'pure white';
-    if (l > 0.7) return 'light gray';
-    if (l > 0.5) return 'medium gray';
-    if (l > 0.3) return 'dark gray';
-    return 'black';
+
+  throw new Error(`No free trait combination found for FID ${fid}`);
+}
+
+/**
+ * Reroll one slot of generated traits
+ * Seeds after the traits' current one are tried in order until the slot gets
+ * a new value and the resulting DNA is free. Colors are kept, apart from the
+ * contrast adjustment a new background may need.
+ * @param isTaken - Lookup of DNAs already minted by other FIDs
+ */
+export async function rerollTraitSlot(
+  fid: number,
+  traits: CharacterTraits,
+  slot: string,
+  isTaken: (dna: string) => Promise<boolean>
+): Promise<CharacterTraits> {
+  const theme = getTheme(traits.theme);
+  const firstSeed = (traits.rerollSeed ?? 0) + 1;
+
+  for (let seed = firstSeed; seed < firstSeed + MAX_REROLL_SEEDS; seed++) {
+    const rolled = generateTraits(fid, traits.gender, traits.hairColor, {
+      generationVersion: traits.generationVersion,
+      theme,
+      dnaNonce: traits.dnaNonce ?? 0,
+      artStyle: traits.artStyle,
+      reroll: { slot, seed },
+    });
+
+    for (const key of COLOR_KEYS) {
+      rolled[key] = traits[key];
+    }
+    // A new background may need the kept colors adjusted to stay readable
+    const rerolled = applyBackgroundContrast(rolled, theme);
+
+    if (rerolled[slot] !== traits[slot] && !(await isTaken(computeTraitDNA(rerolled)))) {
+      return rerolled;
+    }
+  }
+
+  throw new Error(`No new ${slot} found for FID ${fid}`);
+}
+
+/**
+ * Whether traits name a registered theme and one of its style presets
+ * Posted traits are client input, and getTheme and getStylePreset throw on
+ * unknown ids, so routes check this before anything else reads the traits.
+ */
+export function hasKnownTheme(traits: CharacterTraits): boolean {
+  if (traits.theme !== undefined && (typeof traits.theme !== 'string' || !isThemeId(traits.theme))) {
+    return false;
+  }
+
+  return (
+    traits.artStyle === undefined ||
+    getTheme(traits.theme).stylePresets.some((preset) => preset.id === traits.artStyle)
+  );
+}
+
+/**
+ * Re-derive stored traits from the FID and check they were not altered
+ * Traits without a generationVersion are audited against v1. Colors come from
+ * the PFP at mint time, so only rolled traits are compared.
+ */
+export function verifyTraits(fid: number, traits: CharacterTraits): boolean {
+  const expected = generateTraits(fid, traits.gender, traits.hairColor, {
+    generationVersion: traits.generationVersion ?? 1,
+    theme: getTheme(traits.theme),
+    dnaNonce: traits.dnaNonce ?? 0,
+    artStyle: traits.artStyle,
+    reroll: traits.rerollSlot ? { slot: traits.rerollSlot, seed: traits.rerollSeed ?? 0 } : undefined,
+  });
+
+  return Object.keys(expected).every(
+    (key) => TRAIT_META_KEYS.includes(key) || COLOR_KEYS.includes(key) || expected[key] === traits[key]
+  );
+}
+
+/**
+ * Score how rare a set of traits is
+ * Each weighted slot contributes 1 / probability of its value, so rarer picks
+ * count for more. The rank compares the score to the most common combination.
+ */
+export function calculateRarity(traits: CharacterTraits): TraitRarity {
+  let score = 0;
+  let baseline = 0;
+  let maxScore = 0;
+  const tiers: Record<string, RarityTier> = {};
+
+  for (const { key, table } of getTheme(traits.theme).slots) {
+    const total = totalWeight(table);
+    const entry = table.find((candidate) => candidate.value === traits[key]);
+
+    baseline += total / Math.max(...table.map(weightOf));
+    maxScore += total / Math.min(...table.map(weightOf));
+
+    if (entry) {
+      score += total / weightOf(entry);
+      tiers[key] = entry.tier;
+    }
   }
-  
-  // Color families based on hue
-  if (hue < 15 || hue >= 345) colorFamily = 'red';
-  else if (hue < 45) colorFamily = 'orange-red';
-  else if (hue < 70) colorFamily = 'orange';
-  else if (hue < 90) colorFamily = 'yellow-orange';
-  else if (hue < 150) colorFamily = 'yellow-green';
-  else if (hue < 170) colorFamily = 'green';
-  else if (hue < 200) colorFamily = 'cyan-green';
-  else if (hue < 220) colorFamily = 'cyan';
-  else if (hue < 250) colorFamily = 'blue';
-  else if (hue < 280) colorFamily = 'purple-blue';
-  else if (hue < 310) colorFamily = 'purple';
-  else if (hue < 330) colorFamily = 'magenta';
-  else colorFamily = 'pink-red';
-  
-  return `${saturation} ${brightness} ${colorFamily}`;
+
+  const ratio = score / baseline;
+  let rank: RarityTier = 'Common';
+  if (ratio >= 4) rank = 'Legendary';
+  else if (ratio >= 2.5) rank = 'Rare';
+  else if (ratio >= 1.6) rank = 'Uncommon';
+
+  return {
+    score: Math.round(score * 100) / 100,
+    maxScore: Math.round(maxScore * 100) / 100,
+    rank,
+    tiers,
+  };
 }
 
 /**
- * Build AI generation prompt from traits
+ * ERC-721 metadata attribute; display_type and max_value are read by marketplaces
  */
-export function buildPromptFromTraits(traits: WinterCheerTraits): string {
-  // Strengthen gender description with masculine/feminine features
-  const genderDesc = traits.gender === 'Male' 
-    ? 'masculine anime boy with sharp facial features, defined jawline, broader shoulders, boyish charm'
-    : 'feminine anime girl with soft delicate features, gentle expression, graceful appearance, cute demeanor';
-  
-  const styleDesc = 'cute anime chibi character';
-
-  // Convert hex to descriptive color name for AI understanding
-  const descriptiveColor = hexToColorName(traits.hairColor);
-  
-  // STRONG emphasis on color matching PFP with descriptive color names
-  const hairColorEmphasis = `BRIGHT ${descriptiveColor} colored hair, the hair MUST be EXACTLY this ${descriptiveColor} shade`;
-  const outfitColorEmphasis = `${traits.outfit.toLowerCase()} outfit that MUST be PRECISELY ${descriptiveColor} color, matching the hair color EXACTLY`;
-
-  return `${styleDesc} ${genderDesc}, ${traits.skinTone.toLowerCase()} skin tone, ${traits.hairStyle.toLowerCase()} hairstyle with ${hairColorEmphasis}, ${traits.eyeStyle.toLowerCase()} eyes, wearing ${outfitColorEmphasis}. CRITICAL: Both the hair AND outfit MUST be ${descriptiveColor} color. Holding ${traits.accessory.toLowerCase()}, wearing ${traits.headAccessory.toLowerCase()}, ${traits.background.toLowerCase()} background, ${traits.specialEffect.toLowerCase()}, kawaii Christmas aesthetic, Seal Online game character style, professional anime illustration, 4k quality, detailed and colorful. THE PRIMARY COLOR SCHEME MUST BE ${descriptiveColor} for both hair and outfit - this is MANDATORY.`;
+export interface MetadataAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: 'number' | 'boost_number' | 'boost_percentage' | 'date';
+  max_value?: number;
+}
+
+export interface TokenAttributeOptions {
+  edition?: number; // Number shown in the token name (the FID)
+  mintedAt?: Date;
+}
+
+const colorName = (hex: string) => nearestNamedColor(hex).name;
+
+/**
+ * Convert traits to OpenSea-compatible metadata attributes
+ * Colors are listed by their closest named color; the raw hexes stay in Palette.
+ * Edition and mint date are only emitted when known, i.e. when pinning metadata.
+ */
+export function traitsToAttributes(
+  traits: CharacterTraits,
+  options: TokenAttributeOptions = {}
+): MetadataAttribute[] {
+  const theme = getTheme(traits.theme);
+  const rarity = calculateRarity(traits);
+  const traitCount = theme.slots.filter(({ key }) => traits[key] !== undefined && traits[key] !== 'None').length;
+
+  const attributes: MetadataAttribute[] = [
+    { trait_type: 'Gender', value: traits.gender },
+    { trait_type: 'Art Style', value: getStylePreset(theme, traits.artStyle).label },
+    { trait_type: 'Skin Tone', value: traits.skinTone },
+    { trait_type: 'Hair Color', value: colorName(traits.hairColor) },
+    { trait_type: 'Outfit Color', value: colorName(traits.outfitColor) },
+    ...(traits.eyeColor ? [{ trait_type: 'Eye Color', value: colorName(traits.eyeColor) }] : []),
+    ...(traits.accessoryColor ? [{ trait_type: 'Accessory Color', value: colorName(traits.accessoryColor) }] : []),
+    ...(traits.palette ? [{ trait_type: 'Palette', value: traits.palette }] : []),
+    ...theme.slots.map(({ key, label }) => ({ trait_type: label, value: String(traits[key]) })),
+    { trait_type: 'Rarity Rank', value: rarity.rank },
+    { trait_type: 'Rarity Score', value: rarity.score, display_type: 'number', max_value: rarity.maxScore },
+    { trait_type: 'Trait Count', value: traitCount, display_type: 'number', max_value: theme.slots.length },
+    {
+      trait_type: 'Palette Hue',
+      value: Math.round(hexToHsl(traits.hairColor).h),
+      display_type: 'number',
+      max_value: 360,
+    },
+  ];
+
+  if (options.edition !== undefined) {
+    attributes.push({ trait_type: 'Edition', value: options.edition, display_type: 'number' });
+  }
+
+  if (options.mintedAt) {
+    // Marketplaces expect date attributes as unix seconds
+    attributes.push({
+      trait_type: 'Mint Date',
+      value: Math.floor(options.mintedAt.getTime() / 1000),
+      display_type: 'date',
+    });
+  }
+
+  return attributes;
 }
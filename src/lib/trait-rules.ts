@@ -0,0 +1,97 @@
+/**
+ * Trait Compatibility Rules Engine
+ * Evaluates a theme's declarative exclusions, requirements and
+ * gender-conditional pools, which keep trait combinations renderable
+ */
+
+import type { CharacterTraits } from './trait-generator';
+import { getTheme } from './themes';
+import type { CharacterGender } from './themes/types';
+
+export type TraitSlot = string;
+
+export interface TraitMatch {
+  slot: TraitSlot;
+  values: string[];
+}
+
+export type TraitRule =
+  // The two matches may never appear together
+  | { kind: 'exclude'; id: string; when: TraitMatch; forbid: TraitMatch }
+  // Whenever `when` matches, `require` must match too
+  | { kind: 'require'; id: string; when: TraitMatch; require: TraitMatch }
+  // The values of a slot are only available to the listed genders
+  | { kind: 'genderPool'; id: string; slot: TraitSlot; values: string[]; genders: CharacterGender[] };
+
+export interface TraitRuleViolation {
+  ruleId: string;
+  slots: TraitSlot[];
+  message: string;
+}
+
+function matches(traits: CharacterTraits, match: TraitMatch): boolean {
+  return match.values.includes(String(traits[match.slot]));
+}
+
+function ruleSlots(rule: TraitRule): TraitSlot[] {
+  switch (rule.kind) {
+    case 'exclude':
+      return [rule.when.slot, rule.forbid.slot];
+    case 'require':
+      return [rule.when.slot, rule.require.slot];
+    case 'genderPool':
+      return ['gender', rule.slot];
+  }
+}
+
+function checkRule(traits: CharacterTraits, rule: TraitRule): string | null {
+  switch (rule.kind) {
+    case 'exclude':
+      return matches(traits, rule.when) && matches(traits, rule.forbid)
+        ? `${traits[rule.when.slot]} cannot be combined with ${traits[rule.forbid.slot]}`
+        : null;
+    case 'require':
+      return matches(traits, rule.when) && !matches(traits, rule.require)
+        ? `${traits[rule.when.slot]} requires ${rule.require.slot} to be one of: ${rule.require.values.join(', ')}`
+        : null;
+    case 'genderPool':
+      return rule.values.includes(String(traits[rule.slot])) && !rule.genders.includes(traits.gender)
+        ? `${traits[rule.slot]} is only available for ${rule.genders.join(', ')} characters`
+        : null;
+  }
+}
+
+/**
+ * Evaluate rules against a trait set
+ * @param traits - Traits to check
+ * @param rules - Rules of the traits' theme
+ * @param decidedSlots - Only evaluate rules whose slots are all in this set (all rules when omitted)
+ * @returns TraitRuleViolation[] - Empty when the traits are compatible
+ */
+export function findRuleViolations(
+  traits: CharacterTraits,
+  rules: TraitRule[],
+  decidedSlots?: ReadonlySet<TraitSlot>
+): TraitRuleViolation[] {
+  const violations: TraitRuleViolation[] = [];
+
+  for (const rule of rules) {
+    const slots = ruleSlots(rule);
+    if (decidedSlots && !slots.every((slot) => decidedSlots.has(slot))) continue;
+
+    const message = checkRule(traits, rule);
+    if (message) {
+      violations.push({ ruleId: rule.id, slots, message });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Audit a stored traits object against every rule of its theme
+ */
+export function validateTraits(traits: CharacterTraits): { valid: boolean; violations: TraitRuleViolation[] } {
+  const violations = findRuleViolations(traits, getTheme(traits.theme).rules);
+  return { valid: violations.length === 0, violations };
+}
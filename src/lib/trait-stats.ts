@@ -0,0 +1,113 @@
+/**
+ * Collection Trait Statistics
+ * Aggregates trait distribution across all minted NFTs, cached in the Next.js
+ * data cache (shared by every server instance) until the next mint, or for at
+ * most TRAIT_STATS_TTL_SECONDS
+ */
+
+import { revalidateTag, unstable_cache } from 'next/cache';
+import { getMintedTraitsPage } from './db-operations';
+import { traitsToAttributes, type CharacterTraits, type MetadataAttribute } from './trait-generator';
+
+export interface TraitValueStat {
+  value: string;
+  count: number;
+  percentage: number;
+}
+
+export interface TraitTypeStat {
+  traitType: string;
+  values: TraitValueStat[];
+}
+
+export interface TraitStats {
+  totalMinted: number;
+  traits: TraitTypeStat[];
+  updatedAt: string;
+}
+
+// Attributes spread over too many values (hundreds of color names, unique
+// scores) to make a useful distribution
+const SKIPPED_TRAIT_TYPES = [
+  'Hair Color',
+  'Outfit Color',
+  'Eye Color',
+  'Accessory Color',
+  'Palette',
+  'Palette Hue',
+  'Rarity Score',
+  'Edition',
+  'Mint Date',
+];
+
+const PAGE_SIZE = 1000;
+
+// Mints refresh the stats right away; this catches rows changed any other way.
+// Each refresh scans minted_nfts once.
+const TRAIT_STATS_TTL_SECONDS = 300;
+
+const TRAIT_STATS_TAG = 'trait-stats';
+
+/**
+ * Compute trait distribution from every row in minted_nfts
+ */
+async function computeTraitStats(): Promise<TraitStats> {
+  const counts = new Map<string, Map<string, number>>();
+  let totalMinted = 0;
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getMintedTraitsPage(PAGE_SIZE, offset);
+
+    for (const nft of page) {
+      let attributes: MetadataAttribute[];
+      try {
+        attributes = traitsToAttributes(nft.traits as CharacterTraits);
+      } catch (error) {
+        console.warn(`Skipping FID ${nft.fid} in trait stats:`, error);
+        continue;
+      }
+
+      totalMinted++;
+      for (const { trait_type, value } of attributes) {
+        if (SKIPPED_TRAIT_TYPES.includes(trait_type)) continue;
+
+        const values = counts.get(trait_type) ?? new Map<string, number>();
+        values.set(String(value), (values.get(String(value)) ?? 0) + 1);
+        counts.set(trait_type, values);
+      }
+    }
+
+    if (page.length < PAGE_SIZE) break;
+  }
+
+  const traits: TraitTypeStat[] = Array.from(counts, ([traitType, values]) => ({
+    traitType,
+    values: Array.from(values, ([value, count]) => ({
+      value,
+      count,
+      percentage: Math.round((count / totalMinted) * 10000) / 100,
+    })).sort((a, b) => b.count - a.count),
+  }));
+
+  return {
+    totalMinted,
+    traits,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Get trait distribution, recomputing it once the cached copy expires
+ * A failed scan throws and is not cached, so the next request tries again.
+ */
+export const getTraitStats = unstable_cache(computeTraitStats, ['trait-stats'], {
+  revalidate: TRAIT_STATS_TTL_SECONDS,
+  tags: [TRAIT_STATS_TAG],
+});
+
+/**
+ * Drop the cached trait distribution after a mint, so the next request recounts
+ */
+export function refreshTraitStats(): void {
+  revalidateTag(TRAIT_STATS_TAG);
+}
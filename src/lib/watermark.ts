@@ -0,0 +1,65 @@
+/**
+ * Watermarked Mint Previews
+ * Until a mint is confirmed, users only see (and the token only points at) a
+ * low-resolution copy with a tiled watermark; the clean image is pinned and
+ * revealed afterwards (see mint-reveal.ts)
+ */
+
+import sharp from 'sharp';
+
+// Longest side of a preview, well below the 1200px display derivative
+export const PREVIEW_SIZE = 512;
+
+export const PREVIEW_MIME_TYPE = 'image/webp';
+
+const WATERMARK_TEXT = 'PREVIEW';
+
+const BANNER_TEXT = 'Mint to reveal';
+
+/**
+ * SVG overlay for a preview: diagonal rows of WATERMARK_TEXT and a banner,
+ * outlined so they read on light and dark art alike
+ */
+function watermarkSvg(width: number, height: number): string {
+  const step = Math.round(Math.max(width, height) / 4);
+  const fontSize = Math.round(step / 3.2);
+  const diagonal = Math.ceil(Math.hypot(width, height));
+
+  const rows: string[] = [];
+  for (let y = -diagonal; y <= diagonal; y += step) {
+    for (let x = -diagonal; x <= diagonal; x += step * 2) {
+      const offset = (Math.abs(y / step) % 2) * step;
+      rows.push(`<text x="${x + offset}" y="${y}">${WATERMARK_TEXT}</text>`);
+    }
+  }
+
+  const bannerHeight = Math.round(height / 10);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<g transform="translate(${width / 2} ${height / 2}) rotate(-30)" font-family="sans-serif" font-weight="bold"`,
+    ` font-size="${fontSize}" fill="#FFFFFF" fill-opacity="0.35" stroke="#000000" stroke-opacity="0.25" stroke-width="2">`,
+    ...rows,
+    '</g>',
+    `<rect x="0" y="${height - bannerHeight}" width="${width}" height="${bannerHeight}" fill="#000000" opacity="0.55"/>`,
+    `<text x="${width / 2}" y="${height - bannerHeight / 2}" text-anchor="middle" dominant-baseline="middle"`,
+    ` font-family="sans-serif" font-size="${Math.round(bannerHeight / 2.2)}" fill="#FFFFFF">${BANNER_TEXT}</text>`,
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * Render the watermarked preview of a generated image
+ * @returns Buffer - WebP no larger than PREVIEW_SIZE on its longest side
+ */
+export async function renderWatermarkedPreview(image: Buffer): Promise<Buffer> {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  return sharp(data)
+    .composite([{ input: Buffer.from(watermarkSvg(info.width, info.height)), top: 0, left: 0 }])
+    .webp({ quality: 70 })
+    .toBuffer();
+}
@@ -24,6 +24,8 @@ export type PinataFileSource =
 export interface PinataMetadataAttribute {
   trait_type: string;
   value: string | number;
+  display_type?: 'number' | 'boost_number' | 'boost_percentage' | 'date';
+  max_value?: number;
 }
 
 export interface PinataMetadataInput {
@@ -31,6 +33,8 @@ export interface PinataMetadataInput {
   description?: string;
   attributes?: PinataMetadataAttribute[];
   external_url?: string;
+  background_color?: string;
+  animation_url?: string;
   properties?: Record<string, unknown>;
 }
 
@@ -102,6 +106,32 @@ export interface PinataImageWithMetadataResult {
   metadata: PinataMetadataUploadResult;
 }
 
+export interface PinataDirectoryFile {
+  path: string; // Path inside the directory
+  source: PinataFileSource;
+  mimeType?: string;
+}
+
+export interface PinataDirectoryUploadInput {
+  name: string; // Directory name, also shown in Pinata
+  files: PinataDirectoryFile[];
+}
+
+// Response of the legacy pinFileToIPFS endpoint, used for directories
+interface PinataPinFileResponse {
+  IpfsHash: string;
+  PinSize?: number;
+  Timestamp?: string;
+  isDuplicate?: boolean;
+}
+
+// Response of the v3 files endpoint
+interface PinataFilesResponse {
+  data: PinataUploadResponseData;
+}
+
+type PinataProxyResponse = PinataPinFileResponse | PinataFilesResponse;
+
 export async function pinataUploadFile(input: PinataUploadInput): Promise<PinataUploadResult> {
   if (!input?.source) throw new Error('Pinata: source is required');
   const filename = input.filename || 'pinata-upload';
@@ -164,15 +194,65 @@ export async function pinataUploadImageWithMetadata(
   };
 }
 
+/**
+ * Pin several files as one IPFS directory (public network only)
+ * The pin's URIs point at the directory; append a file's path to reach it.
+ */
+export async function pinataUploadDirectory(
+  input: PinataDirectoryUploadInput,
+): Promise<PinataUploadResult> {
+  if (!input?.name) throw new Error('Pinata: directory name is required');
+  if (!input.files?.length) throw new Error('Pinata: at least one file is required');
+
+  const form = new FormData();
+  for (const file of input.files) {
+    const normalized = await normalizeBinary(file.source, file.path, file.mimeType);
+    form.append('file', normalized.blob, `${input.name}/${file.path}`);
+  }
+  form.append('pinataMetadata', JSON.stringify({ name: input.name }));
+  form.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+
+  const payload = await sendThroughPinataProxy(form, 'api.pinata.cloud', '/pinning/pinFileToIPFS');
+  if (!payload || !('IpfsHash' in payload) || !payload.IpfsHash) {
+    throw new Error('Pinata directory upload failed: missing IpfsHash');
+  }
+
+  const data: PinataUploadResponseData = {
+    id: payload.IpfsHash,
+    cid: payload.IpfsHash,
+    name: input.name,
+    size: payload.PinSize,
+    number_of_files: input.files.length,
+    created_at: payload.Timestamp,
+    is_duplicate: payload.isDuplicate,
+  };
+  return {
+    raw: data,
+    pin: mapToPin(data),
+  };
+}
+
 export function pinataGatewayUrl(cid: string): string {
   const base = PINATA_GATEWAY_BASE.replace(/\/$/, '');
   return `${base}/${cid}`;
 }
 
 async function proxyPinataUpload(form: FormData): Promise<PinataUploadResponseData> {
+  const payload = await sendThroughPinataProxy(form, 'uploads.pinata.cloud', '/v3/files');
+  if (!payload || !('data' in payload) || !payload.data?.cid) {
+    throw new Error('Pinata upload failed: missing data.cid');
+  }
+  return payload.data;
+}
+
+async function sendThroughPinataProxy(
+  form: FormData,
+  origin: string,
+  path: string,
+): Promise<PinataProxyResponse | null> {
   form.append('protocol', 'https');
-  form.append('origin', 'uploads.pinata.cloud');
-  form.append('path', '/v3/files');
+  form.append('origin', origin);
+  form.append('path', path);
   form.append('method', 'POST');
   form.append('headers', JSON.stringify({
     Authorization: `Bearer ${PINATA_JWT}`,
@@ -194,10 +274,7 @@ async function proxyPinataUpload(form: FormData): Promise<PinataUploadResponseDa
     const message = payload?.error || 'Pinata upload failed';
     throw new Error(message);
   }
-  if (!payload?.data?.cid) {
-    throw new Error('Pinata upload failed: missing data.cid');
-  }
-  return payload.data as PinataUploadResponseData;
+  return payload;
 }
 
 async function normalizeBinary(
@@ -288,6 +365,13 @@ function buildMetadataDocument(
   if (metadata.external_url) {
     doc.external_url = metadata.external_url;
   }
+  if (metadata.background_color) {
+    // Six hex digits without the leading '#'
+    doc.background_color = metadata.background_color.replace(/^#/, '').toUpperCase();
+  }
+  if (metadata.animation_url) {
+    doc.animation_url = metadata.animation_url;
+  }
   if (metadata.properties && Object.keys(metadata.properties).length > 0) {
     for (const [key, value] of Object.entries(metadata.properties)) {
       (doc as Record<string, unknown>)[key] = value;